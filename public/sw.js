@@ -0,0 +1,76 @@
+// public/sw.js
+// App shell cache for offline use. Hashed build assets (including the pdf.js worker) never change
+// under the same URL, so they are served cache-first; pages go to the network first and fall back
+// to the cached shell when offline.
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `lawbandit-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `lawbandit-assets-${CACHE_VERSION}`;
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then(cache => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys
+                .filter(key => key !== SHELL_CACHE && key !== ASSET_CACHE)
+                .map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// The page asks for assets it will need later (the pdf.js worker is only fetched once a PDF opens)
+self.addEventListener('message', (event) => {
+    if (!event.data || event.data.type !== 'precache' || !Array.isArray(event.data.urls)) return;
+    event.waitUntil(
+        caches.open(ASSET_CACHE).then(cache => Promise.all(event.data.urls.map(url =>
+            cache.match(url).then(hit => hit || cache.add(url)).catch(() => undefined))))
+    );
+});
+
+const cacheFirst = async (request) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(ASSET_CACHE);
+        cache.put(request, response.clone());
+    }
+    return response;
+};
+
+const networkFirst = async (request, fallbackUrl) => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(SHELL_CACHE);
+            cache.put(fallbackUrl || request, response.clone());
+        }
+        return response;
+    } catch (error) {
+        const cached = await caches.match(fallbackUrl || request);
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request, '/'));
+    } else if (url.pathname.startsWith('/_next/static/')) {
+        event.respondWith(cacheFirst(request));
+    } else if (SHELL_URLS.includes(url.pathname)) {
+        event.respondWith(networkFirst(request));
+    }
+});
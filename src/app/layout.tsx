@@ -3,6 +3,12 @@ import './globals.css'
 export const metadata = {
   title: 'LawBandit PDF Highlighter',
   description: 'Enhanced PDF reader with smooth highlighting for law students',
+  manifest: '/manifest.webmanifest',
+  icons: { icon: '/icon.svg' },
+}
+
+export const viewport = {
+  themeColor: '#3b82f6',
 }
 
 export default function RootLayout({
@@ -0,0 +1,179 @@
+// src/components/BriefDialog.tsx
+import React, { useMemo, useState } from 'react';
+import { Copy, Download, Printer } from 'lucide-react';
+import { Highlight, HighlightCategory } from '@/types/highlight';
+import { buildBrief, briefToHtml, briefToMarkdown, captionFromFileName } from '@/lib/brief';
+import { downloadBlob } from '@/lib/download';
+
+interface BriefDialogProps {
+    fileName: string;
+    highlights: Highlight[];
+    categories: HighlightCategory[];
+    onClose: () => void;
+    onMessage: (message: string) => void;
+}
+
+const BriefDialog = ({ fileName, highlights, categories, onClose, onMessage }: BriefDialogProps) => {
+    const [headings, setHeadings] = useState<Record<string, string>>(() =>
+        Object.fromEntries(categories.map(c => [c.id, c.name]))
+    );
+
+    const brief = useMemo(() => buildBrief({
+        caption: captionFromFileName(fileName),
+        highlights,
+        categories,
+        headings,
+    }), [fileName, highlights, categories, headings]);
+
+    const entryCount = brief.sections.reduce((sum, section) => sum + section.entries.length, 0);
+    const baseName = captionFromFileName(fileName);
+
+    const copyMarkdown = async () => {
+        try {
+            await navigator.clipboard.writeText(briefToMarkdown(brief));
+            onMessage('Brief copied as Markdown');
+        } catch (error) {
+            console.error('Error copying brief:', error);
+            onMessage('Could not copy to clipboard');
+        }
+    };
+
+    const downloadMarkdown = () => {
+        downloadBlob(new Blob([briefToMarkdown(brief)], { type: 'text/markdown' }), `${baseName}_brief.md`);
+        onMessage(`Brief saved as ${baseName}_brief.md`);
+    };
+
+    const openPrintableView = () => {
+        const url = URL.createObjectURL(new Blob([briefToHtml(brief)], { type: 'text/html' }));
+        const opened = window.open(url, '_blank');
+        if (!opened) onMessage('Allow pop-ups to open the printable brief');
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    };
+
+    const actionStyle = (enabled: boolean): React.CSSProperties => ({
+        flex: 1,
+        padding: '0.5rem',
+        backgroundColor: enabled ? '#3b82f6' : '#9ca3af',
+        color: 'white',
+        border: 'none',
+        borderRadius: '0.375rem',
+        fontSize: '0.875rem',
+        cursor: enabled ? 'pointer' : 'not-allowed',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '0.25rem',
+    });
+
+    return (
+        <div
+            onClick={(e) => {
+                if (e.target === e.currentTarget) onClose();
+            }}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                background: 'rgba(0, 0, 0, 0.5)',
+                zIndex: 10000,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+            }}
+        >
+            <div style={{
+                background: 'white',
+                padding: '2rem',
+                borderRadius: '1rem',
+                maxWidth: '480px',
+                width: '90%',
+                maxHeight: '90vh',
+                overflowY: 'auto',
+                boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)',
+            }}>
+                <h3 style={{ marginBottom: '0.5rem', fontSize: '1.25rem', fontWeight: 600 }}>
+                    Generate Brief
+                </h3>
+                <p style={{ marginBottom: '1.5rem', color: '#6b7280', fontSize: '0.875rem' }}>
+                    Choose the brief section for each category. Leave a heading blank to skip it;
+                    categories with the same heading are combined.
+                </p>
+
+                {categories.map(category => (
+                    <div
+                        key={category.id}
+                        style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '0.5rem' }}
+                    >
+                        <div style={{
+                            width: '110px',
+                            flexShrink: 0,
+                            padding: '0.25rem 0.5rem',
+                            borderRadius: '0.25rem',
+                            backgroundColor: category.background,
+                            borderLeft: `4px solid ${category.value}`,
+                            fontSize: '0.8125rem',
+                            fontWeight: 600,
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                        }}>
+                            {category.name}
+                        </div>
+                        <input
+                            type="text"
+                            value={headings[category.id] ?? ''}
+                            onChange={(e) => setHeadings(prev => ({ ...prev, [category.id]: e.target.value }))}
+                            placeholder="Skip"
+                            style={{
+                                flex: 1,
+                                padding: '0.25rem 0.5rem',
+                                border: '1px solid #d1d5db',
+                                borderRadius: '0.25rem',
+                                fontSize: '0.875rem',
+                            }}
+                        />
+                    </div>
+                ))}
+
+                <div style={{ margin: '1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+                    {entryCount} quote{entryCount === 1 ? '' : 's'} in {brief.sections.length} section{brief.sections.length === 1 ? '' : 's'}
+                </div>
+
+                <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
+                    <button onClick={copyMarkdown} disabled={entryCount === 0} style={actionStyle(entryCount > 0)}>
+                        <Copy size={14} />
+                        Copy
+                    </button>
+                    <button onClick={downloadMarkdown} disabled={entryCount === 0} style={actionStyle(entryCount > 0)}>
+                        <Download size={14} />
+                        Markdown
+                    </button>
+                    <button onClick={openPrintableView} disabled={entryCount === 0} style={actionStyle(entryCount > 0)}>
+                        <Printer size={14} />
+                        Print View
+                    </button>
+                </div>
+
+                <button
+                    onClick={onClose}
+                    style={{
+                        width: '100%',
+                        padding: '0.5rem',
+                        backgroundColor: '#6b7280',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '0.375rem',
+                        fontSize: '0.875rem',
+                        cursor: 'pointer',
+                    }}
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default BriefDialog;
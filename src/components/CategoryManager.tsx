@@ -0,0 +1,130 @@
+// src/components/CategoryManager.tsx
+import React from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+import { HighlightCategory } from '@/types/highlight';
+
+interface CategoryManagerProps {
+    categories: HighlightCategory[];
+    onChange: (categories: HighlightCategory[]) => void;
+    onClose: () => void;
+}
+
+const CategoryManager = ({ categories, onChange, onClose }: CategoryManagerProps) => {
+    const updateCategory = (id: string, changes: Partial<HighlightCategory>) => {
+        onChange(categories.map(c => c.id === id ? { ...c, ...changes } : c));
+    };
+
+    const moveCategory = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= categories.length) return;
+
+        const reordered = [...categories];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onChange(reordered);
+    };
+
+    const inputStyle: React.CSSProperties = {
+        width: '100%',
+        padding: '0.25rem 0.5rem',
+        border: '1px solid #d1d5db',
+        borderRadius: '0.25rem',
+        fontSize: '0.8125rem',
+    };
+
+    const arrowStyle = (enabled: boolean): React.CSSProperties => ({
+        padding: '0.125rem',
+        backgroundColor: 'white',
+        border: '1px solid #d1d5db',
+        borderRadius: '0.25rem',
+        cursor: enabled ? 'pointer' : 'not-allowed',
+        opacity: enabled ? 1 : 0.4,
+        display: 'flex',
+    });
+
+    return (
+        <div style={{
+            padding: '1rem',
+            backgroundColor: '#f9fafb',
+            borderRadius: '0.5rem',
+            marginBottom: '1rem',
+            border: '1px solid #e5e7eb',
+            maxHeight: '320px',
+            overflowY: 'auto',
+        }}>
+            {categories.map((category, index) => (
+                <div
+                    key={category.id}
+                    style={{
+                        display: 'flex',
+                        gap: '0.5rem',
+                        alignItems: 'flex-start',
+                        marginBottom: '0.75rem',
+                    }}
+                >
+                    <div style={{
+                        width: '20px',
+                        height: '20px',
+                        marginTop: '0.25rem',
+                        flexShrink: 0,
+                        borderRadius: '0.25rem',
+                        backgroundColor: category.background,
+                        border: `2px solid ${category.value}`,
+                    }} />
+
+                    <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                        <input
+                            type="text"
+                            value={category.name}
+                            onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                            placeholder="Category name"
+                            style={{ ...inputStyle, fontWeight: 600 }}
+                        />
+                        <input
+                            type="text"
+                            value={category.description}
+                            onChange={(e) => updateCategory(category.id, { description: e.target.value })}
+                            placeholder="Description"
+                            style={inputStyle}
+                        />
+                    </div>
+
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                        <button
+                            onClick={() => moveCategory(index, -1)}
+                            disabled={index === 0}
+                            style={arrowStyle(index > 0)}
+                            title="Move up"
+                        >
+                            <ChevronUp size={12} />
+                        </button>
+                        <button
+                            onClick={() => moveCategory(index, 1)}
+                            disabled={index === categories.length - 1}
+                            style={arrowStyle(index < categories.length - 1)}
+                            title="Move down"
+                        >
+                            <ChevronDown size={12} />
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            <button
+                onClick={onClose}
+                style={{
+                    padding: '0.25rem 0.5rem',
+                    fontSize: '0.75rem',
+                    backgroundColor: '#3b82f6',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '0.25rem',
+                    cursor: 'pointer',
+                }}
+            >
+                Done
+            </button>
+        </div>
+    );
+};
+
+export default CategoryManager;
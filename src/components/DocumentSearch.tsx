@@ -0,0 +1,236 @@
+// src/components/DocumentSearch.tsx
+import React, { useEffect, useRef } from 'react';
+import { ChevronUp, ChevronDown, Highlighter, X } from 'lucide-react';
+import { SearchHit, SearchOptions } from '@/lib/textSearch';
+
+interface DocumentSearchProps {
+    query: string;
+    options: SearchOptions;
+    hits: SearchHit[];
+    activeIndex: number;
+    error: string | null;
+    indexedPages: number;
+    totalPages: number;
+    highlightColor: string;
+    inputRef?: React.RefObject<HTMLInputElement | null>;
+    onQueryChange: (query: string) => void;
+    onOptionsChange: (options: SearchOptions) => void;
+    onSelectHit: (index: number) => void;
+    onHighlightAll: () => void;
+    onClose: () => void;
+}
+
+const OPTION_TOGGLES: Array<{ key: keyof SearchOptions; label: string; title: string }> = [
+    { key: 'caseSensitive', label: 'Aa', title: 'Match case' },
+    { key: 'wholeWord', label: 'W', title: 'Whole words' },
+    { key: 'regex', label: '.*', title: 'Regular expression' },
+];
+
+const DocumentSearch = ({
+    query,
+    options,
+    hits,
+    activeIndex,
+    error,
+    indexedPages,
+    totalPages,
+    highlightColor,
+    inputRef,
+    onQueryChange,
+    onOptionsChange,
+    onSelectHit,
+    onHighlightAll,
+    onClose,
+}: DocumentSearchProps) => {
+    const activeItemRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const step = (direction: 1 | -1) => {
+        if (hits.length === 0) return;
+        const next = activeIndex < 0
+            ? (direction === 1 ? 0 : hits.length - 1)
+            : (activeIndex + direction + hits.length) % hits.length;
+        onSelectHit(next);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            step(e.shiftKey ? -1 : 1);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    const iconButtonStyle = (enabled: boolean): React.CSSProperties => ({
+        padding: '0.25rem',
+        backgroundColor: 'white',
+        border: '1px solid #d1d5db',
+        borderRadius: '0.25rem',
+        cursor: enabled ? 'pointer' : 'not-allowed',
+        opacity: enabled ? 1 : 0.4,
+        display: 'flex',
+    });
+
+    const isIndexing = indexedPages < totalPages;
+    let status = '';
+    if (error) {
+        status = error;
+    } else if (query) {
+        status = hits.length === 0
+            ? 'No matches'
+            : `${activeIndex >= 0 ? `${activeIndex + 1} of ` : ''}${hits.length} match${hits.length === 1 ? '' : 'es'}`;
+    }
+
+    return (
+        <div style={{
+            width: '320px',
+            backgroundColor: 'white',
+            borderLeft: '1px solid #e5e7eb',
+            display: 'flex',
+            flexDirection: 'column',
+            overflow: 'hidden',
+        }}>
+            <div style={{ padding: '1rem', borderBottom: '1px solid #e5e7eb' }}>
+                <div style={{ display: 'flex', gap: '0.25rem', marginBottom: '0.5rem' }}>
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        autoFocus
+                        value={query}
+                        onChange={(e) => onQueryChange(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Search document..."
+                        title="Enter for next match, Shift+Enter for previous"
+                        style={{
+                            flex: 1,
+                            minWidth: 0,
+                            padding: '0.375rem 0.5rem',
+                            border: `1px solid ${error ? '#ef4444' : '#d1d5db'}`,
+                            borderRadius: '0.375rem',
+                            fontSize: '0.875rem',
+                        }}
+                    />
+                    <button onClick={() => step(-1)} disabled={hits.length === 0} style={iconButtonStyle(hits.length > 0)} title="Previous match (Shift+Enter)">
+                        <ChevronUp size={14} />
+                    </button>
+                    <button onClick={() => step(1)} disabled={hits.length === 0} style={iconButtonStyle(hits.length > 0)} title="Next match (Enter)">
+                        <ChevronDown size={14} />
+                    </button>
+                    <button onClick={onClose} style={iconButtonStyle(true)} title="Close search (Esc)">
+                        <X size={14} />
+                    </button>
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                    {OPTION_TOGGLES.map(toggle => (
+                        <button
+                            key={toggle.key}
+                            onClick={() => onOptionsChange({ ...options, [toggle.key]: !options[toggle.key] })}
+                            style={{
+                                padding: '0.125rem 0.375rem',
+                                fontSize: '0.75rem',
+                                fontFamily: 'monospace',
+                                backgroundColor: options[toggle.key] ? '#dbeafe' : 'white',
+                                border: `1px solid ${options[toggle.key] ? '#3b82f6' : '#d1d5db'}`,
+                                borderRadius: '0.25rem',
+                                cursor: 'pointer',
+                            }}
+                            title={toggle.title}
+                        >
+                            {toggle.label}
+                        </button>
+                    ))}
+                    <span style={{
+                        flex: 1,
+                        textAlign: 'right',
+                        fontSize: '0.75rem',
+                        color: error ? '#ef4444' : '#6b7280',
+                    }}>
+                        {status}
+                    </span>
+                </div>
+
+                {isIndexing && (
+                    <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: '#6b7280' }}>
+                        Indexing pages... {indexedPages}/{totalPages}
+                    </div>
+                )}
+
+                <button
+                    onClick={onHighlightAll}
+                    disabled={hits.length === 0}
+                    style={{
+                        width: '100%',
+                        marginTop: '0.5rem',
+                        padding: '0.375rem',
+                        backgroundColor: hits.length > 0 ? highlightColor : '#9ca3af',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '0.375rem',
+                        fontSize: '0.8125rem',
+                        cursor: hits.length > 0 ? 'pointer' : 'not-allowed',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        gap: '0.25rem',
+                    }}
+                    title="Highlight every match with the selected color"
+                >
+                    <Highlighter size={14} />
+                    Highlight all matches
+                </button>
+            </div>
+
+            <div style={{ flex: 1, overflowY: 'auto', padding: '0.5rem 1rem' }}>
+                {hits.map((hit, index) => {
+                    const isActive = index === activeIndex;
+                    const startsPage = index === 0 || hits[index - 1].pageNum !== hit.pageNum;
+                    return (
+                        <React.Fragment key={`${hit.pageNum}-${hit.start}`}>
+                            {startsPage && (
+                                <div style={{
+                                    marginTop: index === 0 ? 0 : '0.75rem',
+                                    marginBottom: '0.25rem',
+                                    fontSize: '0.75rem',
+                                    fontWeight: 600,
+                                    color: '#6b7280',
+                                }}>
+                                    Page {hit.pageNum}
+                                </div>
+                            )}
+                            <div
+                                ref={isActive ? activeItemRef : undefined}
+                                onClick={() => onSelectHit(index)}
+                                style={{
+                                    padding: '0.375rem 0.5rem',
+                                    marginBottom: '0.25rem',
+                                    borderRadius: '0.25rem',
+                                    backgroundColor: isActive ? '#ffedd5' : '#f9fafb',
+                                    border: `1px solid ${isActive ? '#f97316' : 'transparent'}`,
+                                    fontSize: '0.8125rem',
+                                    color: '#374151',
+                                    lineHeight: '1.4',
+                                    cursor: 'pointer',
+                                    wordBreak: 'break-word',
+                                }}
+                            >
+                                {hit.before && '…'}{hit.before}
+                                <mark style={{ backgroundColor: '#fde68a', fontWeight: 600, padding: 0 }}>
+                                    {hit.text}
+                                </mark>
+                                {hit.after}{hit.after && '…'}
+                            </div>
+                        </React.Fragment>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default DocumentSearch;
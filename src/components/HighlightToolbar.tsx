@@ -0,0 +1,98 @@
+// src/components/HighlightToolbar.tsx
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import MarkupStyleIcon from '@/components/MarkupStyleIcon';
+import { HighlightCategory, HighlightRect, MarkupStyle, MARKUP_STYLES } from '@/types/highlight';
+
+interface HighlightToolbarProps {
+    bounds: HighlightRect;
+    colors: HighlightCategory[];
+    activeColor: string;
+    activeStyle: MarkupStyle;
+    onRecolor: (color: HighlightCategory) => void;
+    onRestyle: (style: MarkupStyle) => void;
+    onDelete: () => void;
+}
+
+// Floats above the focused highlight (below it near the top edge), positioned in page fractions
+const HighlightToolbar = ({ bounds, colors, activeColor, activeStyle, onRecolor, onRestyle, onDelete }: HighlightToolbarProps) => {
+    const placeBelow = bounds.y1 < 0.06;
+    const alignRight = bounds.x1 > 0.6;
+
+    return (
+        <div
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            style={{
+                position: 'absolute',
+                top: placeBelow ? `calc(${bounds.y2 * 100}% + 6px)` : `calc(${bounds.y1 * 100}% - 6px)`,
+                left: alignRight ? undefined : `${bounds.x1 * 100}%`,
+                right: alignRight ? `${(1 - bounds.x2) * 100}%` : undefined,
+                transform: placeBelow ? undefined : 'translateY(-100%)',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.25rem',
+                padding: '0.25rem',
+                backgroundColor: 'white',
+                border: '1px solid #d1d5db',
+                borderRadius: '0.5rem',
+                boxShadow: '0 4px 6px rgba(0, 0, 0, 0.15)',
+                zIndex: 20,
+                userSelect: 'none',
+            }}
+        >
+            {colors.map(color => (
+                <button
+                    key={color.id}
+                    onClick={() => onRecolor(color)}
+                    style={{
+                        width: '20px',
+                        height: '20px',
+                        borderRadius: '50%',
+                        backgroundColor: color.background,
+                        border: activeColor === color.value ? `2px solid ${color.value}` : '1px solid #d1d5db',
+                        cursor: 'pointer',
+                        padding: 0,
+                    }}
+                    title={`Recolor as ${color.name}`}
+                />
+            ))}
+            <div style={{ width: '1px', height: '20px', backgroundColor: '#e5e7eb', margin: '0 0.125rem' }} />
+            {MARKUP_STYLES.map(style => (
+                <button
+                    key={style.value}
+                    onClick={() => onRestyle(style.value)}
+                    style={{
+                        padding: '0.125rem',
+                        backgroundColor: activeStyle === style.value ? '#e5e7eb' : 'transparent',
+                        border: 'none',
+                        borderRadius: '0.25rem',
+                        color: '#374151',
+                        cursor: 'pointer',
+                        display: 'flex',
+                    }}
+                    title={style.name}
+                >
+                    <MarkupStyleIcon style={style.value} size={16} />
+                </button>
+            ))}
+            <div style={{ width: '1px', height: '20px', backgroundColor: '#e5e7eb', margin: '0 0.125rem' }} />
+            <button
+                onClick={onDelete}
+                style={{
+                    padding: '0.125rem',
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    color: '#ef4444',
+                    cursor: 'pointer',
+                    display: 'flex',
+                }}
+                title="Delete highlight"
+            >
+                <Trash2 size={16} />
+            </button>
+        </div>
+    );
+};
+
+export default HighlightToolbar;
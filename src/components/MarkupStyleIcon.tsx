@@ -0,0 +1,25 @@
+// src/components/MarkupStyleIcon.tsx
+import React from 'react';
+import { Highlighter, LucideIcon, Square, Strikethrough, Underline, Waves } from 'lucide-react';
+import { MarkupStyle } from '@/types/highlight';
+
+const ICONS: Record<MarkupStyle, LucideIcon> = {
+    highlight: Highlighter,
+    underline: Underline,
+    strikeout: Strikethrough,
+    squiggly: Waves,
+    box: Square,
+};
+
+interface MarkupStyleIconProps {
+    style: MarkupStyle;
+    size?: number;
+    color?: string;
+}
+
+const MarkupStyleIcon = ({ style, size = 14, color }: MarkupStyleIconProps) => {
+    const Icon = ICONS[style];
+    return <Icon size={size} color={color} style={{ flexShrink: 0 }} />;
+};
+
+export default MarkupStyleIcon;
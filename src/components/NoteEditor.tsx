@@ -0,0 +1,82 @@
+// src/components/NoteEditor.tsx
+import React, { useState } from 'react';
+import TextareaAutosize from 'react-textarea-autosize';
+
+interface NoteEditorProps {
+    initialValue?: string;
+    onSave: (value: string) => void;
+    onCancel: () => void;
+}
+
+const NoteEditor = ({ initialValue = '', onSave, onCancel }: NoteEditorProps) => {
+    const [value, setValue] = useState(initialValue);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        e.stopPropagation();
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            onSave(value.trim());
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+        }
+    };
+
+    return (
+        <div onClick={(e) => e.stopPropagation()} style={{ marginTop: '0.5rem' }}>
+            <TextareaAutosize
+                autoFocus
+                minRows={2}
+                maxRows={12}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Add a note..."
+                style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '0.375rem',
+                    fontSize: '0.875rem',
+                    fontFamily: 'inherit',
+                    lineHeight: '1.4',
+                    resize: 'none',
+                    backgroundColor: 'white',
+                }}
+            />
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '0.25rem' }}>
+                <button
+                    onClick={onCancel}
+                    style={{
+                        padding: '0.25rem 0.5rem',
+                        fontSize: '0.75rem',
+                        backgroundColor: '#6b7280',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '0.25rem',
+                        cursor: 'pointer',
+                    }}
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onSave(value.trim())}
+                    style={{
+                        padding: '0.25rem 0.5rem',
+                        fontSize: '0.75rem',
+                        backgroundColor: '#3b82f6',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '0.25rem',
+                        cursor: 'pointer',
+                    }}
+                    title="Save (Ctrl+Enter)"
+                >
+                    Save
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default NoteEditor;
@@ -0,0 +1,132 @@
+// src/components/OutlinePanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
+import type { OutlineNode } from 'pdfjs-dist/build/pdf';
+
+interface OutlinePanelProps {
+    // null while the outline is still being read
+    outline: OutlineNode[] | null;
+    onSelect: (node: OutlineNode) => void;
+}
+
+// Entries are keyed by their path in the tree, e.g. "2.0.3"
+const collectOpenKeys = (nodes: OutlineNode[], prefix = '', keys: string[] = []) => {
+    nodes.forEach((node, index) => {
+        const key = prefix + index;
+        // A positive count means the PDF wants the entry shown expanded
+        if (node.items.length > 0 && (node.count || 0) > 0) keys.push(key);
+        collectOpenKeys(node.items, key + '.', keys);
+    });
+    return keys;
+};
+
+const OutlinePanel = ({ outline, onSelect }: OutlinePanelProps) => {
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        setExpanded(new Set(outline ? collectOpenKeys(outline) : []));
+    }, [outline]);
+
+    const toggle = (key: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const renderNodes = (nodes: OutlineNode[], prefix: string, depth: number): React.ReactNode =>
+        nodes.map((node, index) => {
+            const key = prefix + index;
+            const hasChildren = node.items.length > 0;
+            const isOpen = expanded.has(key);
+
+            return (
+                <React.Fragment key={key}>
+                    <div
+                        onClick={() => onSelect(node)}
+                        style={{
+                            display: 'flex',
+                            alignItems: 'flex-start',
+                            gap: '0.25rem',
+                            padding: '0.25rem 0.5rem',
+                            paddingLeft: `${0.5 + depth * 0.875}rem`,
+                            fontSize: '0.8125rem',
+                            lineHeight: '1.4',
+                            color: node.dest || node.url ? '#1f2937' : '#9ca3af',
+                            fontWeight: node.bold ? 600 : 400,
+                            fontStyle: node.italic ? 'italic' : 'normal',
+                            cursor: node.dest || node.url ? 'pointer' : 'default',
+                            borderRadius: '0.25rem',
+                        }}
+                        onMouseEnter={(e) => {
+                            e.currentTarget.style.backgroundColor = '#f0f9ff';
+                        }}
+                        onMouseLeave={(e) => {
+                            e.currentTarget.style.backgroundColor = 'transparent';
+                        }}
+                        title={node.url || node.title}
+                    >
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                toggle(key);
+                            }}
+                            style={{
+                                padding: 0,
+                                marginTop: '0.125rem',
+                                backgroundColor: 'transparent',
+                                border: 'none',
+                                color: '#6b7280',
+                                cursor: 'pointer',
+                                display: 'flex',
+                                visibility: hasChildren ? 'visible' : 'hidden',
+                            }}
+                            title={isOpen ? 'Collapse' : 'Expand'}
+                        >
+                            {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        </button>
+                        <span style={{ flex: 1, minWidth: 0, wordBreak: 'break-word' }}>{node.title}</span>
+                        {node.url && <ExternalLink size={12} style={{ flexShrink: 0, marginTop: '0.1875rem' }} />}
+                    </div>
+                    {hasChildren && isOpen && renderNodes(node.items, key + '.', depth + 1)}
+                </React.Fragment>
+            );
+        });
+
+    return (
+        <div style={{
+            width: '260px',
+            flexShrink: 0,
+            backgroundColor: 'white',
+            borderRight: '1px solid #e5e7eb',
+            display: 'flex',
+            flexDirection: 'column',
+            overflow: 'hidden',
+        }}>
+            <div style={{
+                padding: '0.75rem 1rem',
+                borderBottom: '1px solid #e5e7eb',
+                fontSize: '0.875rem',
+                fontWeight: 600,
+                color: '#374151',
+            }}>
+                Outline
+            </div>
+            <div style={{ flex: 1, overflowY: 'auto', padding: '0.5rem' }}>
+                {outline === null ? (
+                    <div style={{ padding: '0.5rem', fontSize: '0.8125rem', color: '#6b7280' }}>Reading outline...</div>
+                ) : outline.length === 0 ? (
+                    <div style={{ padding: '0.5rem', fontSize: '0.8125rem', color: '#6b7280' }}>
+                        This document has no outline
+                    </div>
+                ) : (
+                    renderNodes(outline, '', 0)
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default OutlinePanel;
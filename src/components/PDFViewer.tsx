@@ -1,128 +1,292 @@
-﻿import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Highlighter, Trash2, Download, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Palette } from 'lucide-react';
-
-interface Highlight {
-    id: string;
-    text: string;
-    color: string;
-    background: string;
-    pageNumber: number;
-    position?: {
-        x: number;
-        y: number;
-        width: number;
-        height: number;
-    };
-    rects?: Array<{
-        x: number;
-        y: number;
-        width: number;
-        height: number;
-    }>;
-    created: string;
+﻿import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+import { Highlighter, Trash2, Download, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Palette, FileDown, FileUp, MessageSquare, Pencil, FileText, Search, Undo2, Redo2, Keyboard, SquareDashedMousePointer, PenLine, Eraser, StickyNote, RotateCw, MoveHorizontal, Maximize, PanelLeft, ListTree, CornerUpLeft } from 'lucide-react';
+import type { ExplicitDestination, OutlineNode, PDFDocumentProxy, RenderTask } from 'pdfjs-dist/build/pdf';
+import NoteEditor from '@/components/NoteEditor';
+import CategoryManager from '@/components/CategoryManager';
+import BriefDialog from '@/components/BriefDialog';
+import DocumentSearch from '@/components/DocumentSearch';
+import ShortcutHelp from '@/components/ShortcutHelp';
+import HighlightToolbar from '@/components/HighlightToolbar';
+import MarkupStyleIcon from '@/components/MarkupStyleIcon';
+import StickyNotePopover from '@/components/StickyNotePopover';
+import RecentDocuments from '@/components/RecentDocuments';
+import ThumbnailStrip from '@/components/ThumbnailStrip';
+import OutlinePanel from '@/components/OutlinePanel';
+import {
+    deleteDocument,
+    hashDocument,
+    listRecentDocuments,
+    loadDocument,
+    loadDocumentFile,
+    RecentDocument,
+    saveDocument,
+    saveDocumentFile,
+    StoredDocument,
+} from '@/lib/documentStore';
+import { exportHighlightedPdf, downloadPdf } from '@/lib/pdfExport';
+import { importPageAnnotations } from '@/lib/annotationImport';
+import { loadPdfJs } from '@/lib/pdfjs';
+import { getPageLinks, PageLink, resolveDestination } from '@/lib/outline';
+import { registerServiceWorker } from '@/lib/serviceWorker';
+import { createSidecar, parseSidecar, serializeSidecar, SidecarError } from '@/lib/sidecar';
+import { downloadBlob } from '@/lib/download';
+import { createInkStroke, getInkPath, INK_WIDTHS, isStrokeHit, simplifyPoints } from '@/lib/ink';
+import {
+    getFitScale,
+    getRotatedSize,
+    getRotationTransform,
+    invertRotation,
+    isQuarterTurn,
+    normalizeRotation,
+    PageRotation,
+    rotatePartialPoint,
+    rotatePoint,
+    rotateRect,
+    ZoomMode,
+} from '@/lib/pageView';
+import { buildPageIndex, getRangeRects, getTextInRect, PageTextIndex, searchPages, SearchHit, SearchOptions } from '@/lib/textSearch';
+import { searchPagesInBackground, SearchTimeoutError } from '@/lib/backgroundSearch';
+import { createTextAnchor, resolveTextAnchor, snapToWordBoundary, toCharIndex, toTextPosition } from '@/lib/textAnchor';
+import {
+    createHistoryEntry,
+    EMPTY_HISTORY,
+    HighlightHistory,
+    HistoryEntry,
+    MAX_HISTORY,
+    pushHistory,
+    redoEntry,
+    redoInk,
+    undoEntry,
+    undoInk,
+} from '@/lib/history';
+import {
+    DEFAULT_SHORTCUTS,
+    findShortcutAction,
+    getColorIndex,
+    isEditableTarget,
+    loadShortcuts,
+    saveShortcuts,
+    ShortcutBindings,
+} from '@/lib/shortcuts';
+import {
+    createCustomCategory,
+    createPosition,
+    getHighlightBackground,
+    getHighlightCategory,
+    getHighlightSegments,
+    getLastPageNumber,
+    getMarkupStyle,
+    getPageNumber,
+    getSegmentOnPage,
+    compareDocumentOrder,
+    isAreaHighlight,
+    isCustomCategory,
+    isStickyNote,
+    rectsIntersect,
+    replaceSegment,
+    toHighlightRect,
+} from '@/lib/highlightModel';
+import {
+    Highlight,
+    HighlightCategory,
+    HighlightRect,
+    HighlightSegment,
+    InkPoint,
+    InkStroke,
+    MarkupStyle,
+    TextAnchor,
+    TextPosition,
+    DEFAULT_CATEGORIES,
+    MARKUP_STYLES,
+} from '@/types/highlight';
+
+// 'text' is the default: selecting text to highlight and clicking highlights to edit them
+type ViewerTool = 'text' | 'area' | 'pen' | 'eraser' | 'note';
+
+interface PageSize {
+    width: number;
+    height: number;
 }
 
-interface ColorOption {
-    name: string;
-    value: string;
-    bg: string;
+// An in-flight render of one page; cancelling it stops the pdf.js task it is waiting on
+interface RenderJob {
+    scale: number;
+    cancel: () => void;
 }
 
+// Letter size in points, used for page placeholders until the real size is known
+const DEFAULT_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+// Pages that keep their canvases after leaving the render window, most recently seen first
+const MAX_RETAINED_PAGES = 8;
+// Device pixels per canvas, the same ceiling pdf.js uses, so high zoom on a HiDPI screen can't exhaust memory
+const MAX_CANVAS_PIXELS = 16777216;
+// Pages showing a stretched preview wait this long before re-rendering, so a burst of zoom steps renders once
+const ZOOM_RENDER_DELAY = 150;
+// Zoom for documents opened without saved state
+const DEFAULT_SCALE = 1.5;
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+// The scroll container's padding and the page border, left clear around a fitted page
+const FIT_MARGIN = 72;
+const MAX_BACK_ENTRIES = 50;
+
+// Where the reader was before following a link: a page and how far down it the view's top edge sat
+interface ReadingPosition {
+    pageNum: number;
+    offset: number;
+}
+
+const AREA_SNAPSHOT_MAX_WIDTH = 480;
+const AREA_MIN_SIZE = 0.01;
+// Sticky note icons are a fixed size in PDF points, so they scale with the page like the text
+const NOTE_ICON_SIZE = 20;
+
+// Overlay styling for one rectangle of a markup; boxes get a single rectangle around the whole segment
+const getMarkupCss = (style: MarkupStyle, color: string, background: string): Partial<CSSStyleDeclaration> => {
+    switch (style) {
+        case 'underline':
+            return { borderBottom: `2px solid ${color}`, boxSizing: 'border-box' };
+        case 'strikeout':
+            return {
+                background: `linear-gradient(to bottom, transparent calc(50% - 1px), ${color} calc(50% - 1px), ${color} calc(50% + 1px), transparent calc(50% + 1px))`,
+            };
+        case 'squiggly': {
+            const wave = `<svg xmlns="http://www.w3.org/2000/svg" width="6" height="4"><path d="M0 3 L1.5 1 L3 3 L4.5 1 L6 3" fill="none" stroke="${color}" stroke-width="1"/></svg>`;
+            return {
+                backgroundImage: `url("data:image/svg+xml,${encodeURIComponent(wave)}")`,
+                backgroundRepeat: 'repeat-x',
+                backgroundPosition: 'left bottom',
+                backgroundSize: '6px 4px',
+            };
+        }
+        case 'box':
+            return { border: `2px solid ${color}`, boxSizing: 'border-box' };
+        default:
+            return { backgroundColor: background, opacity: '0.6' };
+    }
+};
+
 const PDFHighlighter = () => {
     const [file, setFile] = useState<File | null>(null);
-    const [pdfDoc, setPdfDoc] = useState<any>(null);
+    const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
     const [currentPage, setCurrentPage] = useState(1);
     const [totalPages, setTotalPages] = useState(0);
-    const [scale, setScale] = useState(1.5);
+    const [scale, setScale] = useState(DEFAULT_SCALE);
     const [highlights, setHighlights] = useState<Highlight[]>([]);
-    const [selectedColor, setSelectedColor] = useState('#fbbf24');
-    const [selectedBackground, setSelectedBackground] = useState('#fef3c7');
+    const [selectedColor, setSelectedColor] = useState(DEFAULT_CATEGORIES[0].value);
+    const [selectedBackground, setSelectedBackground] = useState(DEFAULT_CATEGORIES[0].background);
+    const [selectedStyle, setSelectedStyle] = useState<MarkupStyle>('highlight');
     const [searchTerm, setSearchTerm] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [selectedText, setSelectedText] = useState('');
     const [renderedPages, setRenderedPages] = useState<Set<number>>(new Set());
-    const [customColors, setCustomColors] = useState<ColorOption[]>([]);
+    const [pageSizes, setPageSizes] = useState<Record<number, PageSize>>({});
+    const [defaultPageSize, setDefaultPageSize] = useState<PageSize>(DEFAULT_PAGE_SIZE);
+    const [renderWindow, setRenderWindow] = useState<Set<number>>(new Set());
+    const [livePages, setLivePages] = useState<Set<number>>(new Set());
+    const [zoomMode, setZoomMode] = useState<ZoomMode>('custom');
+    const [rotation, setRotation] = useState<PageRotation>(0);
+    const [pageRotations, setPageRotations] = useState<Record<number, PageRotation>>({});
+    const [showThumbnails, setShowThumbnails] = useState(false);
+    const [showOutline, setShowOutline] = useState(false);
+    const [outline, setOutline] = useState<OutlineNode[] | null>(null);
+    const [backStack, setBackStack] = useState<ReadingPosition[]>([]);
+    const [categories, setCategories] = useState<HighlightCategory[]>(DEFAULT_CATEGORIES);
     const [showColorPicker, setShowColorPicker] = useState(false);
+    const [showCategoryManager, setShowCategoryManager] = useState(false);
+    const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+    const [showBriefDialog, setShowBriefDialog] = useState(false);
     const [pageInputValue, setPageInputValue] = useState('');
     const [zoomInputValue, setZoomInputValue] = useState('');
     const [isExporting, setIsExporting] = useState(false);
+    const [documentId, setDocumentId] = useState<string | null>(null);
+    const [recentDocuments, setRecentDocuments] = useState<RecentDocument[]>([]);
+    const [pendingRestorePage, setPendingRestorePage] = useState<number | null>(null);
+    const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+    const [showDocumentSearch, setShowDocumentSearch] = useState(false);
+    const [documentQuery, setDocumentQuery] = useState('');
+    const [searchOptions, setSearchOptions] = useState<SearchOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+    const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+    const [activeHitIndex, setActiveHitIndex] = useState(-1);
+    const [searchError, setSearchError] = useState<string | null>(null);
+    const [indexedPageCount, setIndexedPageCount] = useState(0);
+    const [history, setHistory] = useState<HighlightHistory>(EMPTY_HISTORY);
+    const [focusedHighlightId, setFocusedHighlightId] = useState<string | null>(null);
+    const [shortcuts, setShortcuts] = useState<ShortcutBindings>(DEFAULT_SHORTCUTS);
+    const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+    const [tool, setTool] = useState<ViewerTool>('text');
+    const [inkStrokes, setInkStrokes] = useState<InkStroke[]>([]);
+    const [inkWidth, setInkWidth] = useState(INK_WIDTHS[1].value);
+    // The expanded sticky note, or a newly placed one (no highlightId) that hasn't been saved yet
+    const [openStickyNote, setOpenStickyNote] = useState<{ pageNum: number; rect: HighlightRect; highlightId?: string } | null>(null);
 
     const canvasRefs = useRef<Map<number, HTMLCanvasElement>>(new Map());
     const textLayerRefs = useRef<Map<number, HTMLDivElement>>(new Map());
     const highlightLayerRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+    const linkLayerRefs = useRef<Map<number, HTMLDivElement>>(new Map());
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const sidecarInputRef = useRef<HTMLInputElement>(null);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const pageContainerRefs = useRef<Map<number, HTMLDivElement>>(new Map());
-
-    const defaultColors: ColorOption[] = [
-        { name: 'Yellow', value: '#fbbf24', bg: '#fef08a' },
-        { name: 'Blue', value: '#3b82f6', bg: '#93c5fd' },
-        { name: 'Green', value: '#10b981', bg: '#6ee7b7' },
-        { name: 'Pink', value: '#ec4899', bg: '#f472b6' },
-        { name: 'Purple', value: '#8b5cf6', bg: '#a78bfa' },
-        { name: 'Orange', value: '#f97316', bg: '#fb923c' },
-    ];
-
-    const allColors = [...defaultColors, ...customColors];
-
-    const generateBackgroundColor = (mainColor: string) => {
-        const hex = mainColor.replace('#', '');
-        const r = parseInt(hex.substring(0, 2), 16);
-        const g = parseInt(hex.substring(2, 4), 16);
-        const b = parseInt(hex.substring(4, 6), 16);
-
-        const lighten = (color: number) => Math.min(255, Math.floor(color + (255 - color) * 0.7));
-
-        const lightR = lighten(r);
-        const lightG = lighten(g);
-        const lightB = lighten(b);
-
-        return `rgb(${lightR}, ${lightG}, ${lightB})`;
-    };
+    const renderJobsRef = useRef<Map<number, RenderJob>>(new Map());
+    // The scale each live page's bitmap and text layer were drawn at; differs from `scale` while previewing a zoom
+    const renderedScalesRef = useRef<Map<number, number>>(new Map());
+    const zoomAnchorRef = useRef<{ pageNum: number; x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+    const wheelZoomHandlerRef = useRef((e: WheelEvent) => {});
+    const fitZoomHandlerRef = useRef(() => {});
+    const renderWindowRef = useRef<Set<number>>(new Set());
+    const livePagesRef = useRef<Set<number>>(new Set());
+    const pageUseOrderRef = useRef<number[]>([]);
+    const importedPagesRef = useRef<Set<number>>(new Set());
+    const highlightCardRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+    const textIndexRef = useRef<Map<number, PageTextIndex>>(new Map());
+    const textDivRefs = useRef<Map<number, HTMLElement[]>>(new Map());
+    const resolvedRectsRef = useRef<Map<string, HighlightRect[]>>(new Map());
+    const historyActionsRef = useRef({ undo: (entryId?: string) => {}, redo: () => {} });
+    const shortcutHandlerRef = useRef((e: KeyboardEvent) => {});
+    const documentSearchInputRef = useRef<HTMLInputElement>(null);
+    const handleDragStartRef = useRef((highlightId: string, pageNum: number, edge: 'start' | 'end', e: MouseEvent) => {});
+    const followLinkRef = useRef((link: PageLink) => {});
+    const isDraggingHandleRef = useRef(false);
+    const suppressPageClickRef = useRef(false);
+
+    const allColors = categories;
 
     const addCustomColor = (colorHex: string) => {
-        const backgroundColor = generateBackgroundColor(colorHex);
-        const colorName = `Custom ${customColors.length + 1}`;
-
-        const newColor: ColorOption = {
-            name: colorName,
-            value: colorHex,
-            bg: backgroundColor,
-        };
+        const customCount = categories.filter(isCustomCategory).length;
+        const newCategory = createCustomCategory(colorHex, customCount + 1);
 
-        setCustomColors(prev => [...prev, newColor]);
+        setCategories(prev => [...prev, newCategory]);
         setShowColorPicker(false);
         setSelectedColor(colorHex);
-        setSelectedBackground(backgroundColor);
+        setSelectedBackground(newCategory.background);
         showToast(`Added custom color: ${colorHex}`);
     };
 
-    const removeCustomColor = (colorValue: string) => {
-        setCustomColors(prev => prev.filter(color => color.value !== colorValue));
-        if (selectedColor === colorValue) {
-            setSelectedColor('#fbbf24');
-            setSelectedBackground('#fef3c7');
+    const removeCustomColor = (categoryId: string) => {
+        const removed = categories.find(c => c.id === categoryId);
+        setCategories(prev => prev.filter(c => c.id !== categoryId));
+        if (removed && selectedColor === removed.value) {
+            setSelectedColor(DEFAULT_CATEGORIES[0].value);
+            setSelectedBackground(DEFAULT_CATEGORIES[0].background);
         }
+        if (categoryFilter === categoryId) setCategoryFilter(null);
         showToast('Custom color removed');
     };
 
+    // Fetch the pdf.js chunk while the upload screen is showing so the first file opens without a wait
     useEffect(() => {
-        const script = document.createElement('script');
-        script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.min.js';
-        script.async = true;
-        script.onload = () => {
-            window.pdfjsLib.GlobalWorkerOptions.workerSrc =
-                'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.worker.min.js';
-        };
-        document.body.appendChild(script);
-
-        return () => {
-            if (document.body.contains(script)) {
-                document.body.removeChild(script);
-            }
-        };
+        loadPdfJs().catch(error => console.error('Error loading PDF.js:', error));
+        registerServiceWorker().catch(error => console.warn('Offline support unavailable:', error));
     }, []);
 
+    useEffect(() => {
+        if (file) return;
+        listRecentDocuments()
+            .then(setRecentDocuments)
+            .catch(error => console.warn('Recent documents unavailable:', error));
+    }, [file]);
+
     const handleFileUpload = async (uploadedFile: File) => {
         if (uploadedFile.type !== 'application/pdf') {
             alert('Please upload a PDF file');
@@ -131,21 +295,64 @@ const PDFHighlighter = () => {
 
         setFile(uploadedFile);
         setIsLoading(true);
-        setRenderedPages(new Set());
+        resetPageWindow();
         setHighlights([]);
+        setCategories(DEFAULT_CATEGORIES);
+        setInkStrokes([]);
+        setHistory(EMPTY_HISTORY);
+        setDocumentId(null);
+        setBackStack([]);
+        importedPagesRef.current = new Set();
+        textDivRefs.current = new Map();
+        resolvedRectsRef.current = new Map();
 
         try {
             const arrayBuffer = await uploadedFile.arrayBuffer();
-            const loadingTask = window.pdfjsLib.getDocument({ data: arrayBuffer });
+
+            // Hash before pdf.js takes ownership of the buffer
+            let id: string | null = null;
+            let stored = null;
+            try {
+                id = await hashDocument(arrayBuffer);
+                stored = await loadDocument(id);
+                saveDocumentFile(id, uploadedFile).catch(error => console.warn('Error keeping PDF for offline use:', error));
+            } catch (error) {
+                console.warn('Highlight storage unavailable:', error);
+            }
+
+            const pdfjs = await loadPdfJs();
+            const loadingTask = pdfjs.getDocument({ data: arrayBuffer });
             const pdf = await loadingTask.promise;
 
+            // Nothing from the previously open document carries over to one without saved state
+            const initialScale = stored ? stored.scale : DEFAULT_SCALE;
+            const initialPage = stored ? Math.min(Math.max(1, stored.lastPage), pdf.numPages) : 1;
+
+            // Every placeholder starts at the opening page's size; the text indexer fills in the rest
+            const { width, height } = (await pdf.getPage(initialPage)).getViewport({ scale: 1 });
+            setDefaultPageSize({ width, height });
+            setPageSizes({ [initialPage]: { width, height } });
+
             setPdfDoc(pdf);
             setTotalPages(pdf.numPages);
-            setCurrentPage(1);
-
-            renderPage(pdf, 1);
-            if (pdf.numPages > 1) renderPage(pdf, 2);
-            if (pdf.numPages > 2) renderPage(pdf, 3);
+            setCurrentPage(initialPage);
+            setDocumentId(id);
+            setScale(initialScale);
+            setZoomMode(stored?.zoomMode || 'custom');
+            setRotation(stored?.rotation || 0);
+            setPageRotations(stored?.pageRotations || {});
+
+            if (stored) {
+                setHighlights(stored.highlights);
+                setCategories(stored.categories);
+                setInkStrokes(stored.inkStrokes || []);
+                setHistory(stored.history || EMPTY_HISTORY);
+                importedPagesRef.current = new Set(stored.importedPages || []);
+                if (initialPage > 1) setPendingRestorePage(initialPage);
+                if (stored.highlights.length > 0) {
+                    showToast(`Restored ${stored.highlights.length} highlight${stored.highlights.length > 1 ? 's' : ''}`);
+                }
+            }
         } catch (error) {
             console.error('Error loading PDF:', error);
             alert('Error loading PDF file');
@@ -154,41 +361,177 @@ const PDFHighlighter = () => {
         }
     };
 
-    const renderPage = async (pdf: any, pageNum: number) => {
-        if (!pdf) return;
+    const openRecentDocument = async (id: string) => {
+        try {
+            const storedFile = await loadDocumentFile(id);
+            if (storedFile) {
+                await handleFileUpload(storedFile);
+                return;
+            }
+        } catch (error) {
+            console.error('Error opening recent document:', error);
+        }
+        setRecentDocuments(prev => prev.filter(doc => doc.id !== id));
+        showToast('That document is no longer stored in this browser');
+    };
+
+    const removeRecentDocument = async (id: string) => {
+        const doc = recentDocuments.find(d => d.id === id);
+        if (!doc) return;
+
+        const choice = await showChoiceModal(
+            'Remove Document',
+            `Remove "${doc.fileName}" and its ${doc.highlightCount} highlight${doc.highlightCount === 1 ? '' : 's'} from this browser?`,
+            [
+                { id: 'remove', label: 'Remove', background: '#ef4444' },
+                { id: 'cancel', label: 'Cancel', background: '#6b7280' },
+            ]
+        );
+        if (choice !== 'remove') return;
 
         try {
-            const page = await pdf.getPage(pageNum);
-            const viewport = page.getViewport({ scale });
+            await deleteDocument(id);
+            setRecentDocuments(prev => prev.filter(d => d.id !== id));
+        } catch (error) {
+            console.error('Error removing document:', error);
+            showToast('Error removing document');
+        }
+    };
 
-            const canvas = canvasRefs.current.get(pageNum);
-            const textLayer = textLayerRefs.current.get(pageNum);
+    const cancelPageRender = (pageNum: number) => {
+        renderJobsRef.current.get(pageNum)?.cancel();
+        renderJobsRef.current.delete(pageNum);
+    };
 
-            if (!canvas || !textLayer) return;
+    const recordPageSize = (pageNum: number, size: PageSize) => {
+        setPageSizes(prev => {
+            const known = prev[pageNum];
+            if (known && known.width === size.width && known.height === size.height) return prev;
+            return { ...prev, [pageNum]: size };
+        });
+    };
 
-            const context = canvas.getContext('2d');
-            canvas.height = viewport.height;
-            canvas.width = viewport.width;
+    const getPageSize = (pageNum: number) => pageSizes[pageNum] || defaultPageSize;
 
-            const renderContext = {
-                canvasContext: context,
-                viewport: viewport,
-            };
+    // The document's rotation plus the page's own; highlights stay stored against the unrotated page
+    const getPageRotation = (pageNum: number) => normalizeRotation(rotation + (pageRotations[pageNum] || 0));
+
+    const getDisplayedPageSize = (pageNum: number) => getRotatedSize(getPageSize(pageNum), getPageRotation(pageNum));
+
+    const resetPageWindow = () => {
+        renderJobsRef.current.forEach(job => job.cancel());
+        renderJobsRef.current = new Map();
+        renderedScalesRef.current = new Map();
+        renderWindowRef.current = new Set();
+        livePagesRef.current = new Set();
+        pageUseOrderRef.current = [];
+        setRenderWindow(new Set());
+        setLivePages(new Set());
+        setRenderedPages(new Set());
+        setPageSizes({});
+        setDefaultPageSize(DEFAULT_PAGE_SIZE);
+    };
 
-            await page.render(renderContext).promise;
+    // Draws off-screen first so a cancelled or superseded render never leaves a half-drawn page,
+    // and checks after every await that the page still wants this render
+    const renderPage = async (pdf: PDFDocumentProxy | null, pageNum: number, renderScale: number = scale) => {
+        if (!pdf) return;
+
+        cancelPageRender(pageNum);
+        let cancelled = false;
+        let activeTask: RenderTask | null = null;
+        const job: RenderJob = {
+            scale: renderScale,
+            cancel: () => {
+                cancelled = true;
+                activeTask?.cancel();
+            },
+        };
+        renderJobsRef.current.set(pageNum, job);
+        const pageRotation = getPageRotation(pageNum);
+
+        try {
+            const page = await pdf.getPage(pageNum);
+            if (cancelled) return;
+
+            const viewport = page.getViewport({ scale: renderScale, rotation: (page.rotate + pageRotation) % 360 });
+            const { width, height } = page.getViewport({ scale: 1 });
+            recordPageSize(pageNum, { width, height });
+
+            // The bitmap is drawn at device resolution and shown at CSS size, so text stays sharp on HiDPI screens
+            const outputScale = Math.min(
+                window.devicePixelRatio || 1,
+                Math.sqrt(MAX_CANVAS_PIXELS / (viewport.width * viewport.height))
+            );
+            const offscreen = document.createElement('canvas');
+            offscreen.width = Math.floor(viewport.width * outputScale);
+            offscreen.height = Math.floor(viewport.height * outputScale);
+            const offscreenContext = offscreen.getContext('2d');
+            if (!offscreenContext) return;
+
+            activeTask = page.render({
+                canvasContext: offscreenContext,
+                viewport,
+                transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+            });
+            await activeTask.promise;
+            if (cancelled) return;
 
             const textContent = await page.getTextContent();
+            if (cancelled) return;
+
+            if (!textIndexRef.current.has(pageNum)) {
+                textIndexRef.current.set(pageNum, buildPageIndex(pageNum, textContent, page.getViewport({ scale: 1 })));
+            }
+
+            if (!importedPagesRef.current.has(pageNum)) {
+                importedPagesRef.current.add(pageNum);
+                importPageAnnotations(page, pageNum, textContent)
+                    .then(imported => {
+                        if (imported.length === 0) return;
+                        setHighlights(prev => [
+                            ...prev,
+                            ...imported.filter(h => !prev.some(existing => existing.id === h.id)),
+                        ]);
+                    })
+                    .catch(error => console.warn('Error importing annotations:', error));
+            }
+
+            // The page may have been released while pdf.js was busy
+            const canvas = canvasRefs.current.get(pageNum);
+            const textLayer = textLayerRefs.current.get(pageNum);
+            const context = canvas?.getContext('2d');
+            if (!canvas || !textLayer || !context) return;
 
+            canvas.width = offscreen.width;
+            canvas.height = offscreen.height;
+            context.drawImage(offscreen, 0, 0);
+            offscreen.width = 0;
+            renderedScalesRef.current.set(pageNum, renderScale);
+
+            textDivRefs.current.delete(pageNum);
             textLayer.innerHTML = '';
-            textLayer.style.width = viewport.width + 'px';
-            textLayer.style.height = viewport.height + 'px';
 
-            window.pdfjsLib.renderTextLayer({
-                textContent: textContent,
+            // One span per text item, in item order, so highlight anchors can address them by index
+            const textDivs: HTMLElement[] = [];
+            const pdfjs = await loadPdfJs();
+            activeTask = pdfjs.renderTextLayer({
+                textContentSource: textContent,
                 container: textLayer,
                 viewport: viewport,
-                textDivs: [],
+                textDivs,
+            });
+            await activeTask.promise;
+            if (cancelled) return;
+            textDivRefs.current.set(pageNum, textDivs);
+
+            // Links are read with the same viewport, so their fractions already follow the page's rotation
+            const links = await getPageLinks(page, viewport).catch(error => {
+                console.warn(`Error reading links on page ${pageNum}:`, error);
+                return [];
             });
+            if (cancelled) return;
+            renderLinkLayer(pageNum, links);
 
             setRenderedPages(prev => {
                 const newSet = new Set(prev);
@@ -197,16 +540,95 @@ const PDFHighlighter = () => {
             });
             setTimeout(() => renderHighlights(pageNum), 200);
         } catch (error) {
-            console.error('Error rendering page:', error);
+            if (!cancelled) console.error('Error rendering page:', error);
+        } finally {
+            if (renderJobsRef.current.get(pageNum) === job) renderJobsRef.current.delete(pageNum);
         }
     };
 
-    const getSelectionRects = (selection: Selection): DOMRect[] => {
-        const rects: DOMRect[] = [];
+    // Frees a page that has fallen out of the retained set; its highlights are data in state, so
+    // they are simply drawn again the next time the page renders
+    const releasePage = (pageNum: number) => {
+        cancelPageRender(pageNum);
+        const canvas = canvasRefs.current.get(pageNum);
+        if (canvas) {
+            // Shrinking the canvas frees its bitmap now rather than whenever it is garbage collected
+            canvas.width = 0;
+            canvas.height = 0;
+        }
+        renderedScalesRef.current.delete(pageNum);
+        textDivRefs.current.delete(pageNum);
+        setRenderedPages(prev => {
+            if (!prev.has(pageNum)) return prev;
+            const next = new Set(prev);
+            next.delete(pageNum);
+            return next;
+        });
+    };
+
+    // A turned page is blanked and drawn again at once; stretching the old bitmap would show it sideways
+    const rotatePages = (pageNums: number[]) => {
+        pageNums.forEach(pageNum => {
+            releasePage(pageNum);
+            const highlightLayer = highlightLayerRefs.current.get(pageNum);
+            if (highlightLayer) highlightLayer.innerHTML = '';
+            const linkLayer = linkLayerRefs.current.get(pageNum);
+            if (linkLayer) linkLayer.innerHTML = '';
+        });
+    };
+
+    // Positioned in percentages, so links stay over their text while a zoom is previewed
+    const renderLinkLayer = (pageNum: number, links: PageLink[]) => {
+        const linkLayer = linkLayerRefs.current.get(pageNum);
+        if (!linkLayer) return;
+        linkLayer.innerHTML = '';
+
+        links.forEach(link => {
+            const linkDiv = document.createElement('div');
+            Object.assign(linkDiv.style, {
+                position: 'absolute',
+                left: link.rect.x1 * 100 + '%',
+                top: link.rect.y1 * 100 + '%',
+                width: link.rect.width * 100 + '%',
+                height: link.rect.height * 100 + '%',
+                cursor: 'pointer',
+                pointerEvents: 'auto',
+                borderRadius: '2px',
+            });
+            linkDiv.className = 'pdf-link';
+            linkDiv.title = link.url || 'Go to linked location';
+            linkDiv.addEventListener('mouseenter', () => {
+                linkDiv.style.backgroundColor = 'rgba(59, 130, 246, 0.15)';
+            });
+            linkDiv.addEventListener('mouseleave', () => {
+                linkDiv.style.backgroundColor = 'transparent';
+            });
+            linkDiv.addEventListener('mousedown', (e) => e.stopPropagation());
+            linkDiv.addEventListener('click', (e) => {
+                e.stopPropagation();
+                followLinkRef.current(link);
+            });
+            linkLayer.appendChild(linkDiv);
+        });
+    };
 
-        if (selection.rangeCount === 0) return rects;
+    const rotatePage = (pageNum: number) => {
+        setPageRotations(prev => ({ ...prev, [pageNum]: normalizeRotation((prev[pageNum] || 0) + 90) }));
+        rotatePages([pageNum]);
+    };
 
-        const range = selection.getRangeAt(0);
+    const rotateDocument = () => {
+        setRotation(prev => normalizeRotation(prev + 90));
+        rotatePages(Array.from(livePagesRef.current));
+    };
+
+    const getSelectionRects = (selection: Selection): DOMRect[] => {
+        if (selection.rangeCount === 0) return [];
+        return getRangeClientRects(selection.getRangeAt(0));
+    };
+
+    const getRangeClientRects = (range: Range): DOMRect[] => {
+        const rects: DOMRect[] = [];
 
         try {
             const clientRects = range.getClientRects();
@@ -287,6 +709,174 @@ const PDFHighlighter = () => {
         return rects;
     };
 
+    const getTextPositionInLayer = (textDivs: HTMLElement[], node: Node, offset: number, isEnd: boolean): TextPosition | null => {
+        let current: Node | null = node;
+        let charOffset = offset;
+
+        // Boundaries on an element point between its children rather than into a text node
+        if (node.nodeType !== Node.TEXT_NODE) {
+            const child = node.childNodes[isEnd ? offset - 1 : offset];
+            if (!child) return null;
+            current = child;
+            charOffset = isEnd ? (child.textContent || '').length : 0;
+        }
+
+        let itemIndex = -1;
+        while (current && (itemIndex = textDivs.indexOf(current as HTMLElement)) === -1) {
+            current = current.parentNode;
+        }
+
+        return current ? { itemIndex, offset: charOffset } : null;
+    };
+
+    // When the selection continues onto other pages, this page's part runs to its first or last character
+    const createSelectionAnchor = (range: Range, pageNum: number): TextAnchor | undefined => {
+        const pageIndex = textIndexRef.current.get(pageNum);
+        const textDivs = textDivRefs.current.get(pageNum);
+        const textLayer = textLayerRefs.current.get(pageNum);
+        if (!pageIndex || !textDivs || !textLayer) return undefined;
+
+        let startChar: number | null = 0;
+        if (textLayer.contains(range.startContainer)) {
+            const start = getTextPositionInLayer(textDivs, range.startContainer, range.startOffset, false);
+            startChar = start && toCharIndex(pageIndex, start);
+        }
+
+        let endChar: number | null = pageIndex.text.length;
+        if (textLayer.contains(range.endContainer)) {
+            const end = getTextPositionInLayer(textDivs, range.endContainer, range.endOffset, true);
+            endChar = end && toCharIndex(pageIndex, end);
+        }
+
+        if (startChar === null || endChar === null) return undefined;
+
+        return createTextAnchor(pageIndex, { start: startChar, end: endChar }) || undefined;
+    };
+
+    // Measures the anchored text in the current text layer; null when the page isn't rendered
+    // or the text can no longer be found, in which case the stored rectangles are used
+    const getAnchorRects = (anchor: TextAnchor): HighlightRect[] | null => {
+        const pageIndex = textIndexRef.current.get(anchor.pageNumber);
+        const textDivs = textDivRefs.current.get(anchor.pageNumber);
+        const textLayer = textLayerRefs.current.get(anchor.pageNumber);
+        const canvas = canvasRefs.current.get(anchor.pageNumber);
+        if (!pageIndex || !textDivs || !textLayer || !canvas) return null;
+
+        const resolved = resolveTextAnchor(anchor, pageIndex);
+        if (!resolved) return null;
+
+        const start = toTextPosition(pageIndex, resolved.start);
+        const end = toTextPosition(pageIndex, resolved.end, true);
+        const startNode = start && textDivs[start.itemIndex]?.firstChild;
+        const endNode = end && textDivs[end.itemIndex]?.firstChild;
+        if (!start || !end || !startNode || !endNode) return null;
+
+        const range = document.createRange();
+        try {
+            range.setStart(startNode, Math.min(start.offset, startNode.textContent?.length || 0));
+            range.setEnd(endNode, Math.min(end.offset, endNode.textContent?.length || 0));
+        } catch {
+            return null;
+        }
+
+        const layerRect = textLayer.getBoundingClientRect();
+        const toPageRotation = invertRotation(getPageRotation(anchor.pageNumber));
+        const rects = getRangeClientRects(range)
+            .filter(rect => rect.width > 0 && rect.height > 0)
+            .map(rect => rotateRect(toHighlightRect({
+                x: (rect.left - layerRect.left) / canvas.clientWidth,
+                y: (rect.top - layerRect.top) / canvas.clientHeight,
+                width: rect.width / canvas.clientWidth,
+                height: rect.height / canvas.clientHeight,
+            }), toPageRotation));
+
+        return rects.length > 0 ? rects : null;
+    };
+
+    const getCharIndexAtPoint = (pageNum: number, clientX: number, clientY: number): number | null => {
+        const pageIndex = textIndexRef.current.get(pageNum);
+        const textDivs = textDivRefs.current.get(pageNum);
+        const textLayer = textLayerRefs.current.get(pageNum);
+        if (!pageIndex || !textDivs || !textLayer) return null;
+
+        let node: Node | null = null;
+        let offset = 0;
+        if (document.caretPositionFromPoint) {
+            const caret = document.caretPositionFromPoint(clientX, clientY);
+            if (caret) {
+                node = caret.offsetNode;
+                offset = caret.offset;
+            }
+        } else if (document.caretRangeFromPoint) {
+            const caret = document.caretRangeFromPoint(clientX, clientY);
+            if (caret) {
+                node = caret.startContainer;
+                offset = caret.startOffset;
+            }
+        }
+        if (!node || !textLayer.contains(node)) return null;
+
+        const position = getTextPositionInLayer(textDivs, node, offset, false);
+        return position && toCharIndex(pageIndex, position);
+    };
+
+    const getCharRange = (highlight: Highlight) => {
+        const pageIndex = textIndexRef.current.get(getPageNumber(highlight));
+        return highlight.anchor && pageIndex ? resolveTextAnchor(highlight.anchor, pageIndex) : null;
+    };
+
+    // Anchored highlights overlap when their text ranges meet; older ones fall back to their rectangles
+    const highlightsOverlap = (a: Highlight, b: Highlight) => {
+        const rangeA = getCharRange(a);
+        const rangeB = getCharRange(b);
+        if (rangeA && rangeB) return rangeA.start <= rangeB.end && rangeB.start <= rangeA.end;
+        return a.position.rects.some(rect => b.position.rects.some(other => rectsIntersect(rect, other)));
+    };
+
+    // Folds single-page highlights into the first of the group, keeping its id, category and date
+    const mergeHighlights = (group: Highlight[]): Highlight => {
+        const [base] = group;
+        const pageNum = getPageNumber(base);
+        const pageIndex = textIndexRef.current.get(pageNum);
+        const ranges = group.map(getCharRange);
+
+        let anchor: TextAnchor | undefined;
+        if (pageIndex && ranges.every(range => range)) {
+            anchor = createTextAnchor(pageIndex, {
+                start: Math.min(...ranges.map(range => range!.start)),
+                end: Math.max(...ranges.map(range => range!.end)),
+            }) || undefined;
+        }
+
+        const storedRects = group.reduce((all, h) => all.concat(h.position.rects), [] as HighlightRect[]);
+        const rects = (anchor && getAnchorRects(anchor)) || storedRects;
+        const text = anchor
+            ? anchor.quote.replace(/\s+/g, ' ').trim()
+            : group
+                .slice()
+                .sort((a, b) => a.position.boundingRect.y1 - b.position.boundingRect.y1 || a.position.boundingRect.x1 - b.position.boundingRect.x1)
+                .map(h => h.content.text)
+                .join(' ');
+        const comments = group.map(h => h.comment).filter(comment => comment);
+
+        return {
+            ...base,
+            position: createPosition(pageNum, rects),
+            anchor,
+            content: { ...base.content, text },
+            comment: comments.length > 0 ? comments.join('\n\n') : undefined,
+        };
+    };
+
+    const openNoteEditor = useCallback((highlightId: string) => {
+        setEditingNoteId(highlightId);
+    }, []);
+
+    useEffect(() => {
+        if (!editingNoteId) return;
+        highlightCardRefs.current.get(editingNoteId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [editingNoteId]);
+
     const renderHighlights = useCallback((pageNum: number, highlightsToRender?: Highlight[]) => {
         const highlightLayer = highlightLayerRefs.current.get(pageNum);
         const canvas = canvasRefs.current.get(pageNum);
@@ -298,61 +888,193 @@ const PDFHighlighter = () => {
         }
 
         const currentHighlights = highlightsToRender || highlights;
-        const pageHighlights = currentHighlights.filter(h => h.pageNumber === pageNum);
+        const pageRotation = getPageRotation(pageNum);
 
-        pageHighlights.forEach(highlight => {
-            const canvasWidth = canvas.width;
-            const canvasHeight = canvas.height;
+        currentHighlights.forEach(highlight => {
+            const segment = getSegmentOnPage(highlight, pageNum);
+            if (!segment) return;
 
-            if (highlight.rects && highlight.rects.length > 0) {
-                highlight.rects.forEach(rect => {
-                    const highlightDiv = document.createElement('div');
+            // Positions are in CSS pixels; the bitmap itself is larger on HiDPI screens
+            const canvasWidth = canvas.clientWidth;
+            const canvasHeight = canvas.clientHeight;
+            const background = getHighlightBackground(highlight.color, categories);
 
-                    const absoluteX = rect.x * canvasWidth;
-                    const absoluteY = rect.y * canvasHeight;
-                    const absoluteWidth = rect.width * canvasWidth;
-                    const absoluteHeight = rect.height * canvasHeight;
+            if (isStickyNote(highlight)) {
+                const rect = segment.position.rects[0] || segment.position.boundingRect;
+                const shown = rotateRect(rect, pageRotation);
+                const icon = document.createElement('div');
+                icon.textContent = '📝';
+                icon.title = highlight.comment || 'Sticky note';
 
-                    Object.assign(highlightDiv.style, {
-                        position: 'absolute',
-                        left: absoluteX + 'px',
-                        top: absoluteY + 'px',
-                        width: absoluteWidth + 'px',
-                        height: absoluteHeight + 'px',
-                        backgroundColor: highlight.background,
-                        opacity: '0.6',
-                        pointerEvents: 'none',
-                        borderRadius: '2px'
-                    });
-                    highlightDiv.className = 'pdf-highlight';
-                    highlightLayer.appendChild(highlightDiv);
+                Object.assign(icon.style, {
+                    position: 'absolute',
+                    left: shown.x1 * canvasWidth + 'px',
+                    top: shown.y1 * canvasHeight + 'px',
+                    width: (shown.x2 - shown.x1) * canvasWidth + 'px',
+                    height: (shown.y2 - shown.y1) * canvasHeight + 'px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: Math.round((shown.y2 - shown.y1) * canvasHeight * 0.65) + 'px',
+                    lineHeight: '1',
+                    backgroundColor: background,
+                    border: `1px solid ${highlight.color}`,
+                    borderRadius: '3px',
+                    boxShadow: '0 1px 2px rgba(0, 0, 0, 0.2)',
+                    outline: highlight.id === focusedHighlightId ? `2px solid ${highlight.color}` : 'none',
+                    outlineOffset: '2px',
+                    cursor: 'pointer',
+                    pointerEvents: 'auto',
                 });
-            } else if (highlight.position) {
+                icon.className = 'pdf-sticky-note';
+                icon.addEventListener('mousedown', (e) => e.stopPropagation());
+                icon.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    setFocusedHighlightId(highlight.id);
+                    setOpenStickyNote({ pageNum, rect, highlightId: highlight.id });
+                });
+                highlightLayer.appendChild(icon);
+                return;
+            }
+
+            const anchorRects = segment.anchor ? getAnchorRects(segment.anchor) : null;
+            const rects = anchorRects || segment.position.rects;
+            if (anchorRects) resolvedRectsRef.current.set(`${highlight.id}@${pageNum}`, anchorRects);
+            else resolvedRectsRef.current.delete(`${highlight.id}@${pageNum}`);
+
+            const style = getMarkupStyle(highlight);
+            const drawnRects = style === 'box' ? [createPosition(pageNum, rects).boundingRect] : rects;
+            drawnRects.map(rect => rotateRect(rect, pageRotation)).forEach(rect => {
                 const highlightDiv = document.createElement('div');
 
-                const absoluteX = highlight.position.x * canvasWidth;
-                const absoluteY = highlight.position.y * canvasHeight;
-                const absoluteWidth = highlight.position.width * canvasWidth;
-                const absoluteHeight = highlight.position.height * canvasHeight;
+                const absoluteX = rect.x1 * canvasWidth;
+                const absoluteY = rect.y1 * canvasHeight;
+                const absoluteWidth = (rect.x2 - rect.x1) * canvasWidth;
+                const absoluteHeight = (rect.y2 - rect.y1) * canvasHeight;
+                const padding = style === 'box' ? 2 : 0;
 
                 Object.assign(highlightDiv.style, {
                     position: 'absolute',
-                    left: absoluteX + 'px',
-                    top: absoluteY + 'px',
-                    width: absoluteWidth + 'px',
-                    height: absoluteHeight + 'px',
-                    backgroundColor: highlight.background,
-                    opacity: '0.6',
+                    left: (absoluteX - padding) + 'px',
+                    top: (absoluteY - padding) + 'px',
+                    width: (absoluteWidth + padding * 2) + 'px',
+                    height: (absoluteHeight + padding * 2) + 'px',
+                    outline: highlight.id === focusedHighlightId ? `2px solid ${highlight.color}` : 'none',
+                    outlineOffset: style === 'highlight' ? '0' : '2px',
                     pointerEvents: 'none',
-                    borderRadius: '2px'
+                    borderRadius: '2px',
+                    ...getMarkupCss(style, highlight.color, background),
                 });
-                highlightDiv.className = 'pdf-highlight';
+                highlightDiv.className = `pdf-highlight pdf-highlight-${style}`;
                 highlightLayer.appendChild(highlightDiv);
+            });
+
+            // Resize handles sit at the very start and very end of the focused highlight's text
+            if (highlight.id === focusedHighlightId && segment.anchor && rects.length > 0) {
+                const edges: Array<{ edge: 'start' | 'end'; rect: HighlightRect }> = [];
+                if (getPageNumber(highlight) === pageNum) edges.push({ edge: 'start', rect: rotateRect(rects[0], pageRotation) });
+                if (getLastPageNumber(highlight) === pageNum) edges.push({ edge: 'end', rect: rotateRect(rects[rects.length - 1], pageRotation) });
+
+                edges.forEach(({ edge, rect }) => {
+                    const handle = document.createElement('div');
+                    const height = (rect.y2 - rect.y1) * canvasHeight;
+                    Object.assign(handle.style, {
+                        position: 'absolute',
+                        left: ((edge === 'start' ? rect.x1 : rect.x2) * canvasWidth - 5) + 'px',
+                        top: (rect.y1 * canvasHeight - 5) + 'px',
+                        width: '10px',
+                        height: (height + 10) + 'px',
+                        cursor: 'ew-resize',
+                        pointerEvents: isDraggingHandleRef.current ? 'none' : 'auto',
+                        zIndex: '5',
+                    });
+
+                    const bar = document.createElement('div');
+                    Object.assign(bar.style, {
+                        position: 'absolute',
+                        left: '4px',
+                        top: '5px',
+                        width: '2px',
+                        height: height + 'px',
+                        background: highlight.color,
+                    });
+                    const knob = document.createElement('div');
+                    Object.assign(knob.style, {
+                        position: 'absolute',
+                        left: '1px',
+                        [edge === 'start' ? 'top' : 'bottom']: '0',
+                        width: '8px',
+                        height: '8px',
+                        borderRadius: '50%',
+                        background: highlight.color,
+                    });
+                    handle.appendChild(bar);
+                    handle.appendChild(knob);
+                    handle.className = 'pdf-highlight-handle';
+                    handle.title = edge === 'start' ? 'Drag to move the start' : 'Drag to move the end';
+                    handle.addEventListener('mousedown', (e) => handleDragStartRef.current(highlight.id, pageNum, edge, e));
+                    handle.addEventListener('click', (e) => e.stopPropagation());
+                    highlightLayer.appendChild(handle);
+                });
+            }
+
+            // The note badge sits on the first page only, even when the highlight continues
+            if (highlight.comment && getPageNumber(highlight) === pageNum) {
+                const { x2, y1 } = rotateRect(anchorRects ? createPosition(pageNum, anchorRects).boundingRect : segment.position.boundingRect, pageRotation);
+                const noteBadge = document.createElement('div');
+                noteBadge.textContent = '💬';
+                noteBadge.title = highlight.comment;
+
+                Object.assign(noteBadge.style, {
+                    position: 'absolute',
+                    left: (x2 * canvasWidth + 2) + 'px',
+                    top: (y1 * canvasHeight - 10) + 'px',
+                    fontSize: '14px',
+                    lineHeight: '1',
+                    cursor: 'pointer',
+                    pointerEvents: 'auto',
+                });
+                noteBadge.className = 'pdf-highlight-note';
+                noteBadge.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    openNoteEditor(highlight.id);
+                });
+                highlightLayer.appendChild(noteBadge);
             }
         });
-    }, [highlights]);
 
-    const createHighlight = useCallback((text: string, color: string, background: string) => {
+        const pageIndex = textIndexRef.current.get(pageNum);
+        if (!pageIndex) return;
+
+        searchHits.forEach((hit, index) => {
+            if (hit.pageNum !== pageNum) return;
+
+            const isActive = index === activeHitIndex;
+            getRangeRects(pageIndex, hit.start, hit.end).map(rect => rotateRect(rect, pageRotation)).forEach(rect => {
+                const matchDiv = document.createElement('div');
+                Object.assign(matchDiv.style, {
+                    position: 'absolute',
+                    left: rect.x1 * canvas.clientWidth + 'px',
+                    top: rect.y1 * canvas.clientHeight + 'px',
+                    width: (rect.x2 - rect.x1) * canvas.clientWidth + 'px',
+                    height: (rect.y2 - rect.y1) * canvas.clientHeight + 'px',
+                    backgroundColor: isActive ? 'rgba(249, 115, 22, 0.45)' : 'rgba(250, 204, 21, 0.35)',
+                    outline: isActive ? '2px solid #f97316' : 'none',
+                    pointerEvents: 'none',
+                    borderRadius: '2px'
+                });
+                matchDiv.className = 'pdf-search-match';
+                highlightLayer.appendChild(matchDiv);
+            });
+        });
+    }, [highlights, categories, openNoteEditor, searchHits, activeHitIndex, focusedHighlightId, rotation, pageRotations]);
+
+    // Zooming resizes pages before they re-render, so highlights are laid out again at the new size
+    useEffect(() => {
+        renderedPages.forEach(pageNum => renderHighlights(pageNum));
+    }, [renderedPages, renderHighlights, scale]);
+
+    const createHighlight = useCallback((text: string, color: string, categoryId?: string) => {
         if (!text || text.length < 2) return;
 
         const selection = window.getSelection();
@@ -361,171 +1083,618 @@ const PDFHighlighter = () => {
         const selectionRects = getSelectionRects(selection);
         if (selectionRects.length === 0) return;
 
-        let selectedPageNum = currentPage;
-        let textLayer = textLayerRefs.current.get(currentPage);
-
-        for (let [pageNum, layer] of Array.from(textLayerRefs.current)) {
-            const layerRect = layer.getBoundingClientRect();
-            const firstSelectionRect = selectionRects[0];
-
-            if (firstSelectionRect.top >= layerRect.top &&
-                firstSelectionRect.bottom <= layerRect.bottom) {
-                selectedPageNum = pageNum;
-                textLayer = layer;
-                break;
+        // Each rectangle belongs to the page whose text layer contains its vertical center
+        const rectsByPage = new Map<number, DOMRect[]>();
+        selectionRects.forEach(rect => {
+            const centerY = rect.top + rect.height / 2;
+            for (let [pageNum, layer] of Array.from(textLayerRefs.current)) {
+                const layerRect = layer.getBoundingClientRect();
+                if (centerY >= layerRect.top && centerY <= layerRect.bottom) {
+                    rectsByPage.set(pageNum, [...(rectsByPage.get(pageNum) || []), rect]);
+                    break;
+                }
             }
-        }
+        });
+        if (rectsByPage.size === 0) rectsByPage.set(currentPage, selectionRects);
 
-        if (!textLayer) return;
+        const range = selection.getRangeAt(0);
+        const segments: HighlightSegment[] = [];
 
-        const canvas = canvasRefs.current.get(selectedPageNum);
-        if (!canvas) return;
+        Array.from(rectsByPage.keys()).sort((a, b) => a - b).forEach(pageNum => {
+            const textLayer = textLayerRefs.current.get(pageNum);
+            const canvas = canvasRefs.current.get(pageNum);
+            if (!textLayer || !canvas) return;
 
-        const textLayerRect = textLayer.getBoundingClientRect();
-        const canvasWidth = canvas.width;
-        const canvasHeight = canvas.height;
+            const textLayerRect = textLayer.getBoundingClientRect();
+            const canvasWidth = canvas.clientWidth;
+            const canvasHeight = canvas.clientHeight;
 
-        const relativeRects = selectionRects.map(rect => ({
-            x: (rect.left - textLayerRect.left) / canvasWidth,
-            y: (rect.top - textLayerRect.top) / canvasHeight,
-            width: rect.width / canvasWidth,
-            height: rect.height / canvasHeight,
-        }));
+            const toPageRotation = invertRotation(getPageRotation(pageNum));
 
-        const minX = Math.min(...relativeRects.map(r => r.x));
-        const minY = Math.min(...relativeRects.map(r => r.y));
-        const maxX = Math.max(...relativeRects.map(r => r.x + r.width));
-        const maxY = Math.max(...relativeRects.map(r => r.y + r.height));
+            const relativeRects = (rectsByPage.get(pageNum) || []).map(rect => rotateRect(toHighlightRect({
+                x: (rect.left - textLayerRect.left) / canvasWidth,
+                y: (rect.top - textLayerRect.top) / canvasHeight,
+                width: rect.width / canvasWidth,
+                height: rect.height / canvasHeight,
+            }), toPageRotation));
 
-        const fallbackPosition = {
-            x: minX,
-            y: minY,
-            width: maxX - minX,
-            height: maxY - minY,
-        };
+            segments.push({
+                position: createPosition(pageNum, relativeRects),
+                anchor: createSelectionAnchor(range, pageNum),
+            });
+        });
+
+        if (segments.length === 0) return;
+        const [firstSegment, ...continuations] = segments;
 
         const newHighlight: Highlight = {
             id: Date.now().toString() + Math.random().toString(36),
-            text: text.trim(),
+            position: firstSegment.position,
+            anchor: firstSegment.anchor,
+            segments: continuations.length > 0 ? continuations : undefined,
+            content: { text: text.trim() },
             color: color,
-            background: background,
-            pageNumber: selectedPageNum,
-            position: fallbackPosition,
-            rects: relativeRects,
-            created: new Date().toLocaleTimeString(),
+            categoryId,
+            style: selectedStyle,
+            created: new Date(),
         };
 
+        // A selection touching a same-colored highlight on its page extends it instead of stacking a copy
+        const overlapping = continuations.length === 0
+            ? highlights.filter(h =>
+                !h.segments &&
+                !isStickyNote(h) &&
+                !isAreaHighlight(h) &&
+                h.color === color &&
+                getMarkupStyle(h) === selectedStyle &&
+                getPageNumber(h) === getPageNumber(newHighlight) &&
+                highlightsOverlap(h, newHighlight))
+            : [];
+        if (overlapping.length > 0) {
+            const mergeEntry = createHistoryEntry('merge', overlapping, [mergeHighlights([...overlapping, newHighlight])]);
+            const mergedHighlights = redoEntry(highlights, mergeEntry);
+            setHighlights(mergedHighlights);
+            renderHighlights(getPageNumber(newHighlight), mergedHighlights);
+            recordChange(mergeEntry);
+            showUndoToast(overlapping.length > 1 ? `Merged ${overlapping.length} highlights` : 'Merged with existing highlight', mergeEntry);
+            selection.removeAllRanges();
+            return;
+        }
+
         const updatedHighlights = [...highlights, newHighlight];
         setHighlights(updatedHighlights);
-        renderHighlights(selectedPageNum, updatedHighlights);
-        showToast(`Highlighted: "${text.substring(0, 30)}${text.length > 30 ? '...' : ''}"`);
+        segments.forEach(segment => renderHighlights(segment.position.boundingRect.pageNumber, updatedHighlights));
+        const entry = recordChange(createHistoryEntry('highlight', [], [newHighlight]));
+        showUndoToast(`Highlighted: "${text.substring(0, 30)}${text.length > 30 ? '...' : ''}"`, entry);
         selection.removeAllRanges();
-    }, [currentPage, highlights, renderHighlights]);
+    }, [currentPage, highlights, renderHighlights, selectedStyle, rotation, pageRotations]);
 
-    const handleColorSelection = useCallback((color: ColorOption) => {
+    const recolorHighlight = useCallback((highlightId: string, color: HighlightCategory) => {
+        const highlight = highlights.find(h => h.id === highlightId);
+        if (!highlight || (highlight.color === color.value && highlight.categoryId === color.id)) return;
+
+        const updated = { ...highlight, color: color.value, categoryId: color.id };
+        setHighlights(prev => prev.map(h => h.id === highlightId ? updated : h));
+        const entry = recordChange(createHistoryEntry('recolor', [highlight], [updated]));
+        showUndoToast(`Recolored as ${color.name}`, entry);
+    }, [highlights]);
+
+    // With no text selected, picking a color recolors the focused highlight instead
+    const handleColorSelection = useCallback((color: HighlightCategory) => {
         setSelectedColor(color.value);
-        setSelectedBackground(color.bg);
+        setSelectedBackground(color.background);
         const selection = window.getSelection();
         const text = selection?.toString().trim();
         if (text && text.length > 2) {
-            createHighlight(text, color.value, color.bg);
+            createHighlight(text, color.value, color.id);
+        } else if (focusedHighlightId) {
+            recolorHighlight(focusedHighlightId, color);
         }
-    }, [createHighlight]);
+    }, [createHighlight, focusedHighlightId, recolorHighlight]);
 
-    useEffect(() => {
-        const handleSelectionChange = () => {
-            const selection = window.getSelection();
-            const text = selection?.toString().trim();
-            setSelectedText(text || '');
+    // Picking a drawing tool drops the focused highlight so color picks go to the pen, not a recolor
+    const toggleTool = (next: ViewerTool) => {
+        setTool(tool === next ? 'text' : next);
+        if (next !== 'text') setFocusedHighlightId(null);
+    };
+
+    const startInkGesture = (pageNum: number, e: React.PointerEvent<SVGSVGElement>) => {
+        if ((tool !== 'pen' && tool !== 'eraser') || e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+
+        const svg = e.currentTarget;
+        const bounds = svg.getBoundingClientRect();
+        const pageRotation = getPageRotation(pageNum);
+        const toPageRotation = invertRotation(pageRotation);
+        const pageBounds = getRotatedSize(bounds, toPageRotation);
+        const toPoint = (clientX: number, clientY: number): InkPoint => rotatePoint({
+            x: Math.min(1, Math.max(0, (clientX - bounds.left) / bounds.width)),
+            y: Math.min(1, Math.max(0, (clientY - bounds.top) / bounds.height)),
+        }, toPageRotation);
+        svg.setPointerCapture(e.pointerId);
+
+        let handleMove: (moveEvent: PointerEvent) => void;
+        let finish: () => void;
+
+        if (tool === 'eraser') {
+            // The eraser removes whole strokes it passes over; one drag is one undo step
+            const erased: InkStroke[] = [];
+            const erase = (clientX: number, clientY: number) => {
+                const point = toPoint(clientX, clientY);
+                const hits = inkStrokes.filter(stroke =>
+                    stroke.pageNumber === pageNum &&
+                    erased.indexOf(stroke) === -1 &&
+                    isStrokeHit(stroke, point, pageBounds.width, pageBounds.height, Math.max(6, stroke.width * scale / 2 + 4)));
+                if (hits.length === 0) return;
+
+                erased.push(...hits);
+                const erasedIds = new Set(erased.map(stroke => stroke.id));
+                setInkStrokes(prev => prev.filter(stroke => !erasedIds.has(stroke.id)));
+            };
+
+            erase(e.clientX, e.clientY);
+            handleMove = (moveEvent) => erase(moveEvent.clientX, moveEvent.clientY);
+            finish = () => {
+                if (erased.length === 0) return;
+                const entry = recordChange(createHistoryEntry('erase', [], [], undefined, { before: erased, after: [] }));
+                showUndoToast(`Erased ${erased.length} stroke${erased.length === 1 ? '' : 's'}`, entry);
+            };
+        } else {
+            // The stroke in progress is drawn straight into the SVG and only becomes state when finished
+            const points = [toPoint(e.clientX, e.clientY)];
+            const livePath = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+            livePath.setAttribute('fill', 'none');
+            livePath.setAttribute('stroke', selectedColor);
+            livePath.setAttribute('stroke-width', String(inkWidth * scale));
+            livePath.setAttribute('stroke-linecap', 'round');
+            livePath.setAttribute('stroke-linejoin', 'round');
+            livePath.setAttribute('vector-effect', 'non-scaling-stroke');
+            livePath.setAttribute('d', getInkPath(points));
+            const transform = getRotationTransform(pageRotation);
+            if (transform) livePath.setAttribute('transform', transform);
+            svg.appendChild(livePath);
+
+            handleMove = (moveEvent) => {
+                points.push(toPoint(moveEvent.clientX, moveEvent.clientY));
+                livePath.setAttribute('d', getInkPath(points));
+            };
+            finish = () => {
+                livePath.remove();
+                const stroke = createInkStroke(pageNum, simplifyPoints(points, 0.001), selectedColor, inkWidth);
+                setInkStrokes(prev => [...prev, stroke]);
+                recordChange(createHistoryEntry('ink stroke', [], [], undefined, { before: [], after: [stroke] }));
+            };
+        }
+
+        const handleUp = () => {
+            svg.removeEventListener('pointermove', handleMove);
+            svg.removeEventListener('pointerup', handleUp);
+            svg.removeEventListener('pointercancel', handleUp);
+            finish();
         };
 
-        document.addEventListener('selectionchange', handleSelectionChange);
+        svg.addEventListener('pointermove', handleMove);
+        svg.addEventListener('pointerup', handleUp);
+        svg.addEventListener('pointercancel', handleUp);
+    };
 
-        return () => {
-            document.removeEventListener('selectionchange', handleSelectionChange);
+    // Crops the area out of the rendered canvas, scaled down so stored snapshots stay small
+    const captureArea = (pageNum: number, rect: HighlightRect): string | undefined => {
+        const canvas = canvasRefs.current.get(pageNum);
+        if (!canvas) return undefined;
+
+        const sx = rect.x1 * canvas.width;
+        const sy = rect.y1 * canvas.height;
+        const sw = (rect.x2 - rect.x1) * canvas.width;
+        const sh = (rect.y2 - rect.y1) * canvas.height;
+        const ratio = Math.min(1, AREA_SNAPSHOT_MAX_WIDTH / sw);
+
+        const snapshot = document.createElement('canvas');
+        snapshot.width = Math.max(1, Math.round(sw * ratio));
+        snapshot.height = Math.max(1, Math.round(sh * ratio));
+        const context = snapshot.getContext('2d');
+        if (!context) return undefined;
+
+        context.drawImage(canvas, sx, sy, sw, sh, 0, 0, snapshot.width, snapshot.height);
+        return snapshot.toDataURL('image/jpeg', 0.85);
+    };
+
+    // `shownRect` is as drawn on screen: the snapshot is cropped from the page as shown, the highlight stored unrotated
+    const createAreaHighlight = (pageNum: number, shownRect: HighlightRect) => {
+        const pageIndex = textIndexRef.current.get(pageNum);
+        const category = categories.find(c => c.value === selectedColor);
+        const rect = rotateRect(shownRect, invertRotation(getPageRotation(pageNum)));
+
+        const newHighlight: Highlight = {
+            id: Date.now().toString() + Math.random().toString(36),
+            position: createPosition(pageNum, [rect]),
+            content: {
+                text: pageIndex ? getTextInRect(pageIndex, rect) : '',
+                image: captureArea(pageNum, shownRect),
+            },
+            color: selectedColor,
+            categoryId: category?.id,
+            style: 'box',
+            created: new Date(),
         };
-    }, []);
 
-    const exportPDFWithHighlights = async () => {
-        if (highlights.length === 0 || !pdfDoc) {
-            showToast('No highlights to export');
+        setHighlights(prev => [...prev, newHighlight]);
+        setFocusedHighlightId(newHighlight.id);
+        const entry = recordChange(createHistoryEntry('area highlight', [], [newHighlight]));
+        showUndoToast(`Area highlighted on page ${pageNum}`, entry);
+    };
+
+    // Drops an unsaved note centered on the click; it only becomes a highlight once it has text
+    const placeStickyNote = (pageNum: number, e: React.MouseEvent<HTMLDivElement>) => {
+        const canvas = canvasRefs.current.get(pageNum);
+        if (!canvas) return;
+
+        const canvasRect = canvas.getBoundingClientRect();
+        const width = NOTE_ICON_SIZE * scale / canvasRect.width;
+        const height = NOTE_ICON_SIZE * scale / canvasRect.height;
+        const x = Math.min(1 - width, Math.max(0, (e.clientX - canvasRect.left) / canvasRect.width - width / 2));
+        const y = Math.min(1 - height, Math.max(0, (e.clientY - canvasRect.top) / canvasRect.height - height / 2));
+
+        setFocusedHighlightId(null);
+        setOpenStickyNote({ pageNum, rect: rotateRect(toHighlightRect({ x, y, width, height }), invertRotation(getPageRotation(pageNum))) });
+        setTool('text');
+    };
+
+    const saveStickyNote = (text: string) => {
+        if (!openStickyNote) return;
+        const { pageNum, rect, highlightId } = openStickyNote;
+        setOpenStickyNote(null);
+
+        if (highlightId) {
+            updateHighlightComment(highlightId, text);
             return;
         }
+        if (!text) return;
 
-        setIsExporting(true);
-        showToast('Generating PDF with highlights...');
+        const category = categories.find(c => c.value === selectedColor);
+        const newHighlight: Highlight = {
+            id: Date.now().toString() + Math.random().toString(36),
+            position: createPosition(pageNum, [rect]),
+            content: { text: '' },
+            comment: text,
+            color: selectedColor,
+            categoryId: category?.id,
+            sticky: true,
+            created: new Date(),
+        };
 
-        try {
-            // Load jsPDF and html2canvas
-            const jsPDFScript = document.createElement('script');
-            jsPDFScript.src = 'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js';
+        setHighlights(prev => [...prev, newHighlight]);
+        setFocusedHighlightId(newHighlight.id);
+        const entry = recordChange(createHistoryEntry('sticky note', [], [newHighlight]));
+        showUndoToast(`Note added on page ${pageNum}`, entry);
+    };
 
-            const html2canvasScript = document.createElement('script');
-            html2canvasScript.src = 'https://cdnjs.cloudflare.com/ajax/libs/html2canvas/1.4.1/html2canvas.min.js';
+    const startAreaSelection = (pageNum: number, e: React.MouseEvent<HTMLDivElement>) => {
+        if (tool !== 'area' || e.button !== 0) return;
 
-            document.head.appendChild(jsPDFScript);
-            document.head.appendChild(html2canvasScript);
+        const container = pageContainerRefs.current.get(pageNum);
+        const canvas = canvasRefs.current.get(pageNum);
+        if (!container || !canvas) return;
+        e.preventDefault();
 
-            await new Promise((resolve) => {
-                let scriptsLoaded = 0;
-                const checkLoaded = () => {
-                    scriptsLoaded++;
-                    if (scriptsLoaded === 2) resolve(undefined);
-                };
-                jsPDFScript.onload = checkLoaded;
-                html2canvasScript.onload = checkLoaded;
+        const canvasRect = canvas.getBoundingClientRect();
+        const toPoint = (clientX: number, clientY: number) => ({
+            x: Math.min(1, Math.max(0, (clientX - canvasRect.left) / canvasRect.width)),
+            y: Math.min(1, Math.max(0, (clientY - canvasRect.top) / canvasRect.height)),
+        });
+        const start = toPoint(e.clientX, e.clientY);
+        let rect = toHighlightRect({ x: start.x, y: start.y, width: 0, height: 0 });
+
+        const draft = document.createElement('div');
+        Object.assign(draft.style, {
+            position: 'absolute',
+            border: `2px dashed ${selectedColor}`,
+            backgroundColor: selectedBackground,
+            opacity: '0.5',
+            pointerEvents: 'none',
+            zIndex: '15',
+        });
+        container.appendChild(draft);
+
+        const handleMouseMove = (moveEvent: MouseEvent) => {
+            const point = toPoint(moveEvent.clientX, moveEvent.clientY);
+            rect = toHighlightRect({
+                x: Math.min(start.x, point.x),
+                y: Math.min(start.y, point.y),
+                width: Math.abs(point.x - start.x),
+                height: Math.abs(point.y - start.y),
+            });
+            Object.assign(draft.style, {
+                left: rect.x1 * canvasRect.width + 'px',
+                top: rect.y1 * canvasRect.height + 'px',
+                width: rect.width * canvasRect.width + 'px',
+                height: rect.height * canvasRect.height + 'px',
             });
+        };
 
-            const { jsPDF } = (window as any).jspdf;
-            const pdf = new jsPDF('p', 'pt', 'a4');
+        const handleMouseUp = () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+            draft.remove();
 
-            // Render each page with highlights
-            for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-                if (pageNum > 1) {
-                    pdf.addPage();
-                }
+            suppressPageClickRef.current = true;
+            setTimeout(() => {
+                suppressPageClickRef.current = false;
+            }, 0);
 
-                const pageContainer = pageContainerRefs.current.get(pageNum);
-                if (!pageContainer) continue;
+            // A plain click in area mode shouldn't leave a speck behind
+            if (rect.width < AREA_MIN_SIZE || rect.height < AREA_MIN_SIZE) return;
+            createAreaHighlight(pageNum, rect);
+        };
 
-                // Temporarily show all highlights for this page
-                await renderHighlights(pageNum);
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    };
 
-                // Capture the page with highlights
-                const canvas = await (window as any).html2canvas(pageContainer, {
-                    scale: 2,
-                    useCORS: true,
-                    allowTaint: true,
-                    backgroundColor: '#ffffff'
-                });
+    const restyleHighlight = (highlightId: string, style: MarkupStyle) => {
+        const highlight = highlights.find(h => h.id === highlightId);
+        if (!highlight || isStickyNote(highlight) || getMarkupStyle(highlight) === style) return;
 
-                const imgData = canvas.toDataURL('image/jpeg', 0.8);
-                const pdfWidth = pdf.internal.pageSize.getWidth();
-                const pdfHeight = (canvas.height * pdfWidth) / canvas.width;
+        const updated = { ...highlight, style };
+        setHighlights(prev => prev.map(h => h.id === highlightId ? updated : h));
+        const entry = recordChange(createHistoryEntry('restyle', [highlight], [updated]));
+        showUndoToast(`Changed to ${MARKUP_STYLES.find(s => s.value === style)?.name.toLowerCase()}`, entry);
+    };
 
-                pdf.addImage(imgData, 'JPEG', 0, 0, pdfWidth, pdfHeight);
-            }
+    // Like colors, a style applies to the next highlight, or to the focused one when no text is selected
+    const handleStyleSelection = (style: MarkupStyle) => {
+        setSelectedStyle(style);
+        if (!selectedText && focusedHighlightId) restyleHighlight(focusedHighlightId, style);
+    };
 
-            // Save the PDF
-            const filename = `${file?.name?.replace('.pdf', '')}_highlighted.pdf`;
-            pdf.save(filename);
+    handleDragStartRef.current = (highlightId: string, pageNum: number, edge: 'start' | 'end', e: MouseEvent) => {
+        const highlight = highlights.find(h => h.id === highlightId);
+        const pageIndex = textIndexRef.current.get(pageNum);
+        if (!highlight || !pageIndex) return;
+
+        const segments = getHighlightSegments(highlight);
+        const segmentIndex = segments.findIndex(segment => segment.position.boundingRect.pageNumber === pageNum);
+        const segment = segments[segmentIndex];
+        const original = segment?.anchor && resolveTextAnchor(segment.anchor, pageIndex);
+        if (!segment || !original) return;
+
+        e.preventDefault();
+        e.stopPropagation();
+        isDraggingHandleRef.current = true;
+
+        let anchor: TextAnchor | null = null;
+        let current = original;
+
+        // The dragged edge snaps to word boundaries and can't cross the other edge
+        const handleMouseMove = (moveEvent: MouseEvent) => {
+            const charIndex = getCharIndexAtPoint(pageNum, moveEvent.clientX, moveEvent.clientY);
+            if (charIndex === null) return;
+
+            const range = edge === 'start'
+                ? { start: Math.min(snapToWordBoundary(pageIndex, charIndex, 'start'), original.end - 1), end: original.end }
+                : { start: original.start, end: Math.max(snapToWordBoundary(pageIndex, charIndex, 'end'), original.start + 1) };
+            if (range.start === current.start && range.end === current.end) return;
+
+            const next = createTextAnchor(pageIndex, range);
+            if (!next) return;
+            anchor = next;
+            current = range;
+            const preview = replaceSegment(highlight, segmentIndex, { position: segment.position, anchor: next });
+            renderHighlights(pageNum, highlights.map(h => h.id === highlightId ? preview : h));
+        };
 
-            showToast(`PDF exported as ${filename}`);
+        const handleMouseUp = () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+            isDraggingHandleRef.current = false;
 
-            // Clean up
-            document.head.removeChild(jsPDFScript);
-            document.head.removeChild(html2canvasScript);
+            // The click that ends the drag shouldn't refocus or open the note editor
+            suppressPageClickRef.current = true;
+            setTimeout(() => {
+                suppressPageClickRef.current = false;
+            }, 0);
 
-        } catch (error) {
-            console.error('Error exporting PDF:', error);
-            showToast('Error exporting PDF. Please try again.');
+            if (!anchor || (current.start === original.start && current.end === original.end)) {
+                renderHighlights(pageNum);
+                return;
+            }
+
+            const rects = getAnchorRects(anchor) || segment.position.rects;
+            const resized = replaceSegment(highlight, segmentIndex, { position: createPosition(pageNum, rects), anchor });
+            const quotes = getHighlightSegments(resized).map(s => s.anchor?.quote || '');
+            const text = quotes.every(quote => quote)
+                ? quotes.join(' ').replace(/\s+/g, ' ').trim()
+                : highlight.content.text;
+            const updated = { ...resized, content: { ...resized.content, text } };
+
+            setHighlights(prev => prev.map(h => h.id === highlightId ? updated : h));
+            const entry = recordChange(createHistoryEntry('resize', [highlight], [updated]));
+            showUndoToast(`Highlight ${text.length > highlight.content.text.length ? 'extended' : 'shortened'}`, entry);
+        };
+
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    };
+
+    useEffect(() => {
+        const handleSelectionChange = () => {
+            const selection = window.getSelection();
+            const text = selection?.toString().trim();
+            setSelectedText(text || '');
+        };
+
+        document.addEventListener('selectionchange', handleSelectionChange);
+
+        return () => {
+            document.removeEventListener('selectionchange', handleSelectionChange);
+        };
+    }, []);
+
+    const exportPDFWithHighlights = async () => {
+        if ((highlights.length === 0 && inkStrokes.length === 0) || !pdfDoc) {
+            showToast('No highlights to export');
+            return;
+        }
+
+        if (!file) return;
+
+        setIsExporting(true);
+        showToast('Generating PDF with highlights...');
+
+        try {
+            // Re-read the original bytes: the buffer handed to pdf.js was transferred to its worker
+            const originalBytes = await file.arrayBuffer();
+            const bytes = await exportHighlightedPdf(
+                originalBytes,
+                pdfDoc,
+                highlights,
+                Array.from(importedPagesRef.current),
+                inkStrokes
+            );
+
+            const filename = `${file.name.replace(/\.pdf$/i, '')}_highlighted.pdf`;
+            downloadPdf(bytes, filename);
+
+            // Snapshots travel as file attachments on their boxes, which not every PDF viewer can open
+            showToast(highlights.some(isAreaHighlight)
+                ? `PDF exported as ${filename}. Area snapshots are attached to their boxes as image files; some viewers can't open attachments`
+                : `PDF exported as ${filename}`);
+        } catch (error) {
+            console.error('Error exporting PDF:', error);
+            showToast('Error exporting PDF. Please try again.');
         } finally {
             setIsExporting(false);
         }
     };
 
+    const buildStoredDocument = (): StoredDocument | null => {
+        if (!documentId || !file) return null;
+        return {
+            id: documentId,
+            fileName: file.name,
+            highlights,
+            categories,
+            inkStrokes,
+            lastPage: currentPage,
+            scale,
+            zoomMode,
+            rotation,
+            pageRotations,
+            importedPages: Array.from(importedPagesRef.current),
+            history,
+            updatedAt: Date.now(),
+        };
+    };
+
+    useEffect(() => {
+        const snapshot = buildStoredDocument();
+        if (!snapshot) return;
+
+        const persist = () => {
+            saveDocument(snapshot).catch(error => console.error('Error saving highlights:', error));
+        };
+        const timer = setTimeout(persist, 500);
+        window.addEventListener('pagehide', persist);
+
+        return () => {
+            clearTimeout(timer);
+            window.removeEventListener('pagehide', persist);
+        };
+    }, [documentId, file, highlights, categories, inkStrokes, currentPage, scale, zoomMode, rotation, pageRotations, history]);
+
+    const exportHighlightFile = () => {
+        if (!file) return;
+
+        const sidecar = createSidecar({
+            fingerprint: documentId || '',
+            fileName: file.name,
+            pageCount: totalPages,
+            highlights,
+            categories,
+            inkStrokes,
+        });
+        const filename = `${file.name.replace(/\.pdf$/i, '')}_highlights.json`;
+        downloadBlob(new Blob([serializeSidecar(sidecar)], { type: 'application/json' }), filename);
+        showToast(`Highlights exported as ${filename}`);
+    };
+
+    const importHighlightFile = async (sidecarFile: File) => {
+        try {
+            const sidecar = parseSidecar(await sidecarFile.text());
+
+            const warnings: string[] = [];
+            if (documentId && sidecar.fingerprint && sidecar.fingerprint !== documentId) {
+                warnings.push(`This file was made for a different PDF${sidecar.fileName ? ` (${sidecar.fileName})` : ''}, so highlights may not line up.`);
+            }
+            if (sidecar.pageCount !== totalPages) {
+                warnings.push(`It covers ${sidecar.pageCount} pages; this document has ${totalPages}.`);
+            }
+
+            const count = sidecar.highlights.length;
+            const choice = await showChoiceModal(
+                warnings.length > 0 ? 'Different Document' : 'Import Highlights',
+                [`Found ${count} highlight${count === 1 ? '' : 's'}.`, ...warnings].join('\n'),
+                [
+                    { id: 'merge', label: 'Merge', background: '#3b82f6' },
+                    { id: 'replace', label: 'Replace', background: '#ef4444' },
+                    { id: 'cancel', label: 'Cancel', background: '#6b7280' },
+                ]
+            );
+            if (choice !== 'merge' && choice !== 'replace') return;
+
+            const imported = sidecar.highlights.filter(h => getLastPageNumber(h) <= totalPages);
+            const skipped = count - imported.length;
+            const importedInk = (sidecar.inkStrokes || []).filter(stroke => stroke.pageNumber <= totalPages);
+
+            let entry: HistoryEntry;
+            if (choice === 'replace') {
+                entry = createHistoryEntry('import', highlights, imported, { before: categories, after: sidecar.categories },
+                    { before: inkStrokes, after: importedInk });
+                setHighlights(imported);
+                setCategories(sidecar.categories);
+                setInkStrokes(importedInk);
+            } else {
+                const added = imported.filter(h => !highlights.some(existing => existing.id === h.id));
+                const mergedCategories = [
+                    ...categories,
+                    ...sidecar.categories.filter(c => !categories.some(existing => existing.id === c.id)),
+                ];
+                const addedInk = importedInk.filter(stroke => !inkStrokes.some(existing => existing.id === stroke.id));
+                entry = createHistoryEntry('import', [], added, { before: categories, after: mergedCategories },
+                    addedInk.length > 0 ? { before: [], after: addedInk } : undefined);
+                setHighlights(prev => redoEntry(prev, entry));
+                setCategories(mergedCategories);
+                setInkStrokes(prev => redoInk(prev, entry));
+            }
+            recordChange(entry);
+
+            // A merge leaves out highlights that are already here, so only what the entry added is counted
+            const added = entry.after.length;
+            const notes = [
+                ...(imported.length > added ? [`${imported.length - added} already here`] : []),
+                ...(skipped > 0 ? [`${skipped} outside this document skipped`] : []),
+            ];
+            showUndoToast(`Imported ${added} highlight${added === 1 ? '' : 's'}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`, entry);
+        } catch (error) {
+            console.error('Error importing highlights:', error);
+            showToast(error instanceof SidecarError ? error.message : 'Error importing highlights');
+        }
+    };
+
     const handleBackButton = () => {
-        if (highlights.length > 0) {
+        const snapshot = buildStoredDocument();
+        if (snapshot) {
+            saveDocument(snapshot)
+                .then(() => {
+                    if (snapshot.highlights.length > 0) showToast('Highlights saved for this document');
+                })
+                .catch(error => {
+                    console.error('Error saving highlights:', error);
+                    showToast('Error saving highlights');
+                });
+            resetToUploadScreen();
+        } else if (highlights.length > 0) {
             const confirmMessage = `You have ${highlights.length} highlight${highlights.length > 1 ? 's' : ''} in this document. What would you like to do?`;
 
             const modal = document.createElement('div');
@@ -606,10 +1775,89 @@ const PDFHighlighter = () => {
         setTotalPages(0);
         setSelectedText('');
         setSearchTerm('');
-        setRenderedPages(new Set());
+        resetPageWindow();
+        setDocumentId(null);
+        setPendingRestorePage(null);
+        setEditingNoteId(null);
+        setShowDocumentSearch(false);
+        setDocumentQuery('');
+        setHistory(EMPTY_HISTORY);
+        setFocusedHighlightId(null);
+        setTool('text');
+        setInkStrokes([]);
+        setOpenStickyNote(null);
+        setZoomMode('custom');
+        setRotation(0);
+        setPageRotations({});
+        setBackStack([]);
+        importedPagesRef.current = new Set();
+        textDivRefs.current = new Map();
+        resolvedRectsRef.current = new Map();
     };
 
-    const showToast = (message: string) => {
+    const showChoiceModal = (
+        title: string,
+        message: string,
+        choices: Array<{ id: string; label: string; background: string }>
+    ): Promise<string | null> => new Promise(resolve => {
+        const modal = document.createElement('div');
+        modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.5);
+            z-index: 10000;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+        `;
+
+        const modalContent = document.createElement('div');
+        modalContent.style.cssText = `
+            background: white;
+            padding: 2rem;
+            border-radius: 1rem;
+            max-width: 440px;
+            width: 90%;
+            text-align: center;
+            box-shadow: 0 10px 25px rgba(0, 0, 0, 0.1);
+        `;
+
+        const heading = document.createElement('h3');
+        heading.textContent = title;
+        heading.style.cssText = 'margin-bottom: 1rem; font-size: 1.25rem; font-weight: 600;';
+
+        const text = document.createElement('p');
+        text.textContent = message;
+        text.style.cssText = 'margin-bottom: 2rem; color: #6b7280; white-space: pre-line;';
+
+        const buttonRow = document.createElement('div');
+        buttonRow.style.cssText = 'display: flex; gap: 1rem; justify-content: center;';
+
+        const close = (choice: string | null) => {
+            modal.remove();
+            resolve(choice);
+        };
+
+        choices.forEach(choice => {
+            const button = document.createElement('button');
+            button.textContent = choice.label;
+            button.style.cssText = `padding: 0.75rem 1.5rem; background: ${choice.background}; color: white; border: none; border-radius: 0.5rem; cursor: pointer; font-weight: 500;`;
+            button.addEventListener('click', () => close(choice.id));
+            buttonRow.appendChild(button);
+        });
+
+        modalContent.append(heading, text, buttonRow);
+        modal.appendChild(modalContent);
+        modal.addEventListener('click', (e) => {
+            if (e.target === modal) close(null);
+        });
+        document.body.appendChild(modal);
+    });
+
+    const showToast = (message: string, action?: { label: string; onClick: () => void }) => {
         const toast = document.createElement('div');
         toast.textContent = message;
         Object.assign(toast.style, {
@@ -624,50 +1872,133 @@ const PDFHighlighter = () => {
             zIndex: '10000',
             animation: 'slideIn 0.3s ease'
         });
+
+        if (action) {
+            const button = document.createElement('button');
+            button.textContent = action.label;
+            Object.assign(button.style, {
+                marginLeft: '12px',
+                padding: '2px 10px',
+                background: 'transparent',
+                color: 'white',
+                border: '1px solid white',
+                borderRadius: '4px',
+                fontWeight: '600',
+                cursor: 'pointer',
+            });
+            button.addEventListener('click', () => {
+                toast.remove();
+                action.onClick();
+            });
+            toast.appendChild(button);
+        }
+
         document.body.appendChild(toast);
-        setTimeout(() => toast.remove(), 3000);
+        setTimeout(() => toast.remove(), action ? 6000 : 3000);
+    };
+
+    const recordChange = (entry: HistoryEntry) => {
+        setHistory(prev => pushHistory(prev, entry));
+        return entry;
+    };
+
+    // Goes through the ref so a toast created several renders ago still sees the latest history
+    const showUndoToast = (message: string, entry: HistoryEntry) => {
+        showToast(message, { label: 'Undo', onClick: () => historyActionsRef.current.undo(entry.id) });
+    };
+
+    const undo = (entryId?: string) => {
+        const entry = history.past[history.past.length - 1];
+        if (!entry) {
+            showToast('Nothing to undo');
+            return;
+        }
+        if (entryId && entry.id !== entryId) {
+            showToast('Undo the later changes first');
+            return;
+        }
+
+        setHighlights(prev => undoEntry(prev, entry));
+        if (entry.categories) setCategories(entry.categories.before);
+        if (entry.ink) setInkStrokes(prev => undoInk(prev, entry));
+        setHistory(prev => ({
+            past: prev.past.slice(0, -1),
+            future: [entry, ...prev.future].slice(0, MAX_HISTORY),
+        }));
+        setEditingNoteId(null);
+        showToast(`Undid ${entry.label}`);
     };
 
+    const redo = () => {
+        const entry = history.future[0];
+        if (!entry) {
+            showToast('Nothing to redo');
+            return;
+        }
+
+        setHighlights(prev => redoEntry(prev, entry));
+        if (entry.categories) setCategories(entry.categories.after);
+        if (entry.ink) setInkStrokes(prev => redoInk(prev, entry));
+        setHistory(prev => ({
+            past: [...prev.past, entry].slice(-MAX_HISTORY),
+            future: prev.future.slice(1),
+        }));
+        setEditingNoteId(null);
+        showToast(`Redid ${entry.label}`);
+    };
+
+    historyActionsRef.current = { undo, redo };
+
+    useEffect(() => {
+        if (!file) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+            // Leave text fields to their own undo
+            if (isEditableTarget(e.target)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                historyActionsRef.current.undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                historyActionsRef.current.redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [file]);
+
     const handleScroll = useCallback(() => {
         if (!scrollContainerRef.current || !pdfDoc) return;
 
-        const container = scrollContainerRef.current;
-        const containerHeight = container.clientHeight;
+        const containerRect = scrollContainerRef.current.getBoundingClientRect();
 
-        let mostVisiblePage = 1;
+        let mostVisiblePage = currentPage;
         let maxVisibleHeight = 0;
 
-        for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+        // Only pages in the render window can be on screen, so the rest are never measured
+        renderWindowRef.current.forEach(pageNum => {
             const pageContainer = pageContainerRefs.current.get(pageNum);
-            if (!pageContainer) continue;
+            if (!pageContainer) return;
 
             const pageRect = pageContainer.getBoundingClientRect();
-            const containerRect = container.getBoundingClientRect();
-
-            const pageTop = pageRect.top - containerRect.top;
-            const pageBottom = pageRect.bottom - containerRect.top;
-
-            const visibleTop = Math.max(0, pageTop);
-            const visibleBottom = Math.min(containerHeight, pageBottom);
-            const visibleHeight = Math.max(0, visibleBottom - visibleTop);
+            const visibleHeight = Math.min(containerRect.bottom, pageRect.bottom) - Math.max(containerRect.top, pageRect.top);
 
             if (visibleHeight > maxVisibleHeight) {
                 maxVisibleHeight = visibleHeight;
                 mostVisiblePage = pageNum;
             }
-        }
+        });
 
         if (mostVisiblePage !== currentPage) {
             setCurrentPage(mostVisiblePage);
             setPageInputValue('');
         }
-
-        for (let i = Math.max(1, mostVisiblePage - 1); i <= Math.min(totalPages, mostVisiblePage + 1); i++) {
-            if (!renderedPages.has(i)) {
-                renderPage(pdfDoc, i);
-            }
-        }
-    }, [currentPage, totalPages, pdfDoc, renderedPages, renderPage]);
+    }, [currentPage, pdfDoc]);
 
     useEffect(() => {
         const container = scrollContainerRef.current;
@@ -676,6 +2007,65 @@ const PDFHighlighter = () => {
         return () => container.removeEventListener('scroll', handleScroll);
     }, [handleScroll]);
 
+    // The render window is every page within a screen's height of the viewport
+    useEffect(() => {
+        const root = scrollContainerRef.current;
+        if (!root || !pdfDoc || isLoading || totalPages === 0) return;
+
+        const observer = new IntersectionObserver(entries => {
+            entries.forEach(entry => {
+                const pageNum = Number((entry.target as HTMLElement).dataset.pageNumber);
+                if (entry.isIntersecting) renderWindowRef.current.add(pageNum);
+                else renderWindowRef.current.delete(pageNum);
+            });
+            setRenderWindow(new Set(renderWindowRef.current));
+        }, { root, rootMargin: '100% 0px' });
+
+        pageContainerRefs.current.forEach(container => observer.observe(container));
+        return () => observer.disconnect();
+    }, [pdfDoc, isLoading, totalPages]);
+
+    // Pages in the window stay mounted along with the few most recently seen outside it;
+    // anything older is released
+    useEffect(() => {
+        const inWindow = Array.from(renderWindow);
+        const outside = pageUseOrderRef.current.filter(pageNum => !renderWindow.has(pageNum));
+        pageUseOrderRef.current = inWindow.concat(outside);
+
+        const live = new Set(inWindow.concat(outside.slice(0, MAX_RETAINED_PAGES)));
+        livePagesRef.current.forEach(pageNum => {
+            if (!live.has(pageNum)) releasePage(pageNum);
+        });
+        livePagesRef.current = live;
+        setLivePages(live);
+    }, [renderWindow]);
+
+    // Renders window pages that are missing or at an old zoom, nearest to the current page first,
+    // and cancels renders for pages that have left the window or were started at another zoom.
+    // Blank pages render straight away; pages showing a stretched preview wait for zooming to settle
+    useEffect(() => {
+        if (!pdfDoc) return;
+
+        renderJobsRef.current.forEach((job, pageNum) => {
+            if (!renderWindow.has(pageNum) || job.scale !== scale) cancelPageRender(pageNum);
+        });
+
+        const pending = Array.from(renderWindow)
+            .filter(pageNum => livePages.has(pageNum) &&
+                renderedScalesRef.current.get(pageNum) !== scale &&
+                !renderJobsRef.current.has(pageNum))
+            .sort((a, b) => Math.abs(a - currentPage) - Math.abs(b - currentPage));
+
+        pending
+            .filter(pageNum => !renderedScalesRef.current.has(pageNum))
+            .forEach(pageNum => renderPage(pdfDoc, pageNum, scale));
+
+        const stale = pending.filter(pageNum => renderedScalesRef.current.has(pageNum));
+        if (stale.length === 0) return;
+        const timer = setTimeout(() => stale.forEach(pageNum => renderPage(pdfDoc, pageNum, scale)), ZOOM_RENDER_DELAY);
+        return () => clearTimeout(timer);
+    }, [pdfDoc, renderWindow, livePages, renderedPages, scale]);
+
     const goToPage = (pageNum: number) => {
         if (pageNum < 1 || pageNum > totalPages) return;
 
@@ -697,6 +2087,266 @@ const PDFHighlighter = () => {
         setPageInputValue('');
     };
 
+    // Scrolls so `offset` (a fraction of the page's height, as shown) sits at the top of the view
+    const scrollToPageOffset = (pageNum: number, offset: number, margin: number) => {
+        const pageContainer = pageContainerRefs.current.get(pageNum);
+        const scrollContainer = scrollContainerRef.current;
+        if (!pageContainer || !scrollContainer) {
+            goToPage(pageNum);
+            return;
+        }
+
+        const containerRect = scrollContainer.getBoundingClientRect();
+        const pageRect = pageContainer.getBoundingClientRect();
+        scrollContainer.scrollTo({
+            top: scrollContainer.scrollTop + pageRect.top - containerRect.top + offset * pageRect.height - margin,
+            behavior: 'smooth'
+        });
+        setCurrentPage(pageNum);
+        setPageInputValue('');
+    };
+
+    const getReadingPosition = (): ReadingPosition => {
+        const pageContainer = pageContainerRefs.current.get(currentPage);
+        const scrollContainer = scrollContainerRef.current;
+        if (!pageContainer || !scrollContainer) return { pageNum: currentPage, offset: 0 };
+
+        const pageRect = pageContainer.getBoundingClientRect();
+        const offset = (scrollContainer.getBoundingClientRect().top - pageRect.top) / pageRect.height;
+        return { pageNum: currentPage, offset: Math.min(1, Math.max(0, offset)) };
+    };
+
+    // Outline entries and internal links remember the reading position first, so Back can return to it
+    const goToDestination = async (dest: string | ExplicitDestination) => {
+        if (!pdfDoc) return;
+
+        let target = null;
+        try {
+            target = await resolveDestination(pdfDoc, dest);
+        } catch (error) {
+            console.warn('Error resolving link destination:', error);
+        }
+        if (!target) {
+            showToast('That link points somewhere this document does not have');
+            return;
+        }
+
+        const position = getReadingPosition();
+        setBackStack(prev => [...prev, position].slice(-MAX_BACK_ENTRIES));
+        // Only the vertical position is scrolled to, and only when the destination pins it on the turned page
+        const shownY = target.point ? rotatePartialPoint(target.point, getPageRotation(target.pageNumber)).y : null;
+        if (shownY !== null) {
+            scrollToPageOffset(target.pageNumber, shownY, 20);
+        } else {
+            goToPage(target.pageNumber);
+        }
+    };
+
+    const goBack = () => {
+        const position = backStack[backStack.length - 1];
+        if (!position) return;
+        setBackStack(prev => prev.slice(0, -1));
+        scrollToPageOffset(position.pageNum, position.offset, 0);
+    };
+
+    const openExternalLink = (url: string) => {
+        window.open(url, '_blank', 'noopener,noreferrer');
+    };
+
+    followLinkRef.current = (link: PageLink) => {
+        if (link.dest) goToDestination(link.dest);
+        else if (link.url) openExternalLink(link.url);
+    };
+
+    const selectOutlineEntry = (node: OutlineNode) => {
+        if (node.dest) goToDestination(node.dest);
+        else if (node.url) openExternalLink(node.url);
+    };
+
+    useEffect(() => {
+        setOutline(null);
+        if (!pdfDoc) return;
+
+        let cancelled = false;
+        pdfDoc.getOutline()
+            .then(items => {
+                if (!cancelled) setOutline(items || []);
+            })
+            .catch(error => {
+                console.warn('Error reading document outline:', error);
+                if (!cancelled) setOutline([]);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [pdfDoc]);
+
+    useEffect(() => {
+        if (!pendingRestorePage || isLoading || totalPages === 0) return;
+        goToPage(pendingRestorePage);
+        setPendingRestorePage(null);
+    }, [pendingRestorePage, isLoading, totalPages]);
+
+    useEffect(() => {
+        textIndexRef.current = new Map();
+        setIndexedPageCount(0);
+        if (!pdfDoc) return;
+
+        let cancelled = false;
+
+        // Index one page at a time and yield between pages so rendering stays responsive.
+        // Page sizes are collected on the way so placeholders for mixed-size documents settle early
+        const sizes: Record<number, PageSize> = {};
+        const indexPages = async () => {
+            for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+                if (cancelled) return;
+
+                const page = await pdfDoc.getPage(pageNum);
+                const textContent = await page.getTextContent();
+                if (cancelled) return;
+
+                const viewport = page.getViewport({ scale: 1 });
+                textIndexRef.current.set(pageNum, buildPageIndex(pageNum, textContent, viewport));
+                sizes[pageNum] = { width: viewport.width, height: viewport.height };
+                if (pageNum % 10 === 0 || pageNum === pdfDoc.numPages) {
+                    setIndexedPageCount(pageNum);
+                    setPageSizes(prev => ({ ...prev, ...sizes }));
+                }
+
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+        };
+
+        indexPages().catch(error => console.warn('Error indexing document text:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [pdfDoc]);
+
+    useEffect(() => {
+        setActiveHitIndex(-1);
+    }, [documentQuery, searchOptions]);
+
+    useEffect(() => {
+        if (!documentQuery) {
+            setSearchHits([]);
+            setSearchError(null);
+            return;
+        }
+
+        let cancelled = false;
+        let cancelSearch: (() => void) | null = null;
+        const timer = setTimeout(() => {
+            const pages = Array.from(textIndexRef.current.values());
+            try {
+                if (!searchOptions.regex) {
+                    setSearchHits(searchPages(pages, documentQuery, searchOptions));
+                    setSearchError(null);
+                    return;
+                }
+
+                const search = searchPagesInBackground(pages, documentQuery, searchOptions);
+                cancelSearch = search.cancel;
+                search.promise
+                    .then(hits => {
+                        if (cancelled) return;
+                        setSearchHits(hits);
+                        setSearchError(null);
+                    })
+                    .catch(error => {
+                        if (cancelled) return;
+                        console.warn('Error searching document:', error);
+                        setSearchHits([]);
+                        setSearchError(error instanceof SearchTimeoutError
+                            ? 'Pattern took too long; try a simpler one'
+                            : 'Search failed');
+                    });
+            } catch (error) {
+                setSearchHits([]);
+                setSearchError('Invalid regular expression');
+            }
+        }, 200);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            if (cancelSearch) cancelSearch();
+        };
+    }, [documentQuery, searchOptions, indexedPageCount]);
+
+    const goToSearchHit = (index: number) => {
+        const hit = searchHits[index];
+        if (!hit || !pdfDoc) return;
+
+        setActiveHitIndex(index);
+
+        // Placeholders are already page-sized, so the match can be scrolled to before its page renders
+        const pageContainer = pageContainerRefs.current.get(hit.pageNum);
+        const scrollContainer = scrollContainerRef.current;
+        const pageIndex = textIndexRef.current.get(hit.pageNum);
+        const rects = pageIndex ? getRangeRects(pageIndex, hit.start, hit.end) : [];
+
+        if (!pageContainer || !scrollContainer || rects.length === 0) {
+            goToPage(hit.pageNum);
+            return;
+        }
+
+        const containerRect = scrollContainer.getBoundingClientRect();
+        const pageRect = pageContainer.getBoundingClientRect();
+        const matchTop = pageRect.top - containerRect.top + rotateRect(rects[0], getPageRotation(hit.pageNum)).y1 * pageRect.height;
+
+        scrollContainer.scrollTo({
+            top: scrollContainer.scrollTop + matchTop - scrollContainer.clientHeight / 3,
+            behavior: 'smooth'
+        });
+        setCurrentPage(hit.pageNum);
+        setPageInputValue('');
+    };
+
+    const highlightAllMatches = () => {
+        const category = categories.find(c => c.value === selectedColor);
+        const isAlreadyHighlighted = (pageNum: number, text: string, x: number, y: number) =>
+            highlights.some(h =>
+                getPageNumber(h) === pageNum &&
+                h.color === selectedColor &&
+                getMarkupStyle(h) === selectedStyle &&
+                h.content.text === text &&
+                h.position.rects.some(r => x >= r.x1 && x <= r.x2 && y >= r.y1 && y <= r.y2)
+            );
+
+        const created: Highlight[] = [];
+        searchHits.forEach(hit => {
+            const pageIndex = textIndexRef.current.get(hit.pageNum);
+            const rects = pageIndex ? getRangeRects(pageIndex, hit.start, hit.end) : [];
+            if (rects.length === 0) return;
+
+            const centerX = (rects[0].x1 + rects[0].x2) / 2;
+            const centerY = (rects[0].y1 + rects[0].y2) / 2;
+            if (isAlreadyHighlighted(hit.pageNum, hit.text, centerX, centerY)) return;
+
+            created.push({
+                id: Date.now().toString() + Math.random().toString(36),
+                position: createPosition(hit.pageNum, rects),
+                anchor: pageIndex ? createTextAnchor(pageIndex, hit) || undefined : undefined,
+                content: { text: hit.text },
+                color: selectedColor,
+                categoryId: category?.id,
+                style: selectedStyle,
+                created: new Date(),
+            });
+        });
+
+        if (created.length === 0) {
+            showToast('All matches are already highlighted');
+            return;
+        }
+
+        setHighlights(prev => [...prev, ...created]);
+        const entry = recordChange(createHistoryEntry('highlight all matches', [], created));
+        showUndoToast(`Highlighted ${created.length} match${created.length === 1 ? '' : 'es'}`, entry);
+    };
+
     const handlePageInput = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter') {
             const pageNum = parseInt(pageInputValue);
@@ -709,71 +2359,110 @@ const PDFHighlighter = () => {
         }
     };
 
-    const handleZoom = (newScale: number) => {
-        setScale(newScale);
+    // Keeps the page point under `anchor` (the cursor, or the middle of the view by default) in
+    // place across the zoom. Rendered pages stay up as a stretched preview until the render effect
+    // replaces them at the new resolution
+    const zoomTo = (newScale: number, anchor?: { clientX: number; clientY: number }) => {
+        const nextScale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, newScale));
         setZoomInputValue('');
+        if (nextScale === scale) return;
 
-        if (pdfDoc) {
-            setRenderedPages(new Set());
+        const container = scrollContainerRef.current;
+        if (container) {
+            const containerRect = container.getBoundingClientRect();
+            const clientX = anchor ? anchor.clientX : containerRect.left + containerRect.width / 2;
+            const clientY = anchor ? anchor.clientY : containerRect.top + containerRect.height / 2;
+
+            zoomAnchorRef.current = null;
+            let nearestDistance = Infinity;
+            renderWindowRef.current.forEach(pageNum => {
+                const pageRect = pageContainerRefs.current.get(pageNum)?.getBoundingClientRect();
+                if (!pageRect) return;
+
+                const distance = clientY < pageRect.top ? pageRect.top - clientY : Math.max(0, clientY - pageRect.bottom);
+                if (distance >= nearestDistance) return;
+                nearestDistance = distance;
+                zoomAnchorRef.current = {
+                    pageNum,
+                    x: (clientX - pageRect.left) / pageRect.width,
+                    y: (clientY - pageRect.top) / pageRect.height,
+                    offsetX: clientX - containerRect.left,
+                    offsetY: clientY - containerRect.top,
+                };
+            });
+        }
 
-            const container = scrollContainerRef.current;
-            let pagesToRender: number[] = [];
+        setScale(nextScale);
+    };
 
-            if (container) {
-                const containerRect = container.getBoundingClientRect();
-                const containerHeight = containerRect.height;
+    // Any explicit zoom leaves the fit modes
+    const handleZoom = (newScale: number, anchor?: { clientX: number; clientY: number }) => {
+        setZoomMode('custom');
+        zoomTo(newScale, anchor);
+    };
 
-                for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-                    const pageContainer = pageContainerRefs.current.get(pageNum);
-                    if (pageContainer) {
-                        const pageRect = pageContainer.getBoundingClientRect();
+    const toggleZoomMode = (mode: Exclude<ZoomMode, 'custom'>) => {
+        setZoomMode(zoomMode === mode ? 'custom' : mode);
+    };
 
-                        const buffer = containerHeight * 0.5;
-                        if (pageRect.bottom >= (containerRect.top - buffer) &&
-                            pageRect.top <= (containerRect.bottom + buffer)) {
-                            pagesToRender.push(pageNum);
-                        }
-                    }
-                }
+    // Fits the current page into the visible area, rounded down so a fitted page never needs a scrollbar
+    fitZoomHandlerRef.current = () => {
+        const container = scrollContainerRef.current;
+        if (zoomMode === 'custom' || !container || !pdfDoc) return;
 
-                if (newScale < scale) {
-                    const extraRange = Math.max(3, Math.ceil(5 / newScale));
-                    const start = Math.max(1, currentPage - extraRange);
-                    const end = Math.min(totalPages, currentPage + extraRange);
+        const fitScale = getFitScale(zoomMode, getDisplayedPageSize(currentPage), {
+            width: container.clientWidth - FIT_MARGIN,
+            height: container.clientHeight - FIT_MARGIN,
+        });
+        zoomTo(Math.floor(fitScale * 100) / 100);
+    };
 
-                    for (let i = start; i <= end; i++) {
-                        if (!pagesToRender.includes(i)) {
-                            pagesToRender.push(i);
-                        }
-                    }
-                }
-            }
+    useEffect(() => {
+        fitZoomHandlerRef.current();
+    }, [zoomMode, rotation, pageRotations, pdfDoc, isLoading]);
 
-            if (pagesToRender.length === 0) {
-                const range = Math.max(3, Math.ceil(3 / newScale));
-                const start = Math.max(1, currentPage - range);
-                const end = Math.min(totalPages, currentPage + range);
+    // Window resizes and the sidebars opening or closing both change the container's size
+    useEffect(() => {
+        const container = scrollContainerRef.current;
+        if (!container) return;
 
-                for (let i = start; i <= end; i++) {
-                    pagesToRender.push(i);
-                }
-            }
+        const observer = new ResizeObserver(() => fitZoomHandlerRef.current());
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [file]);
 
-            pagesToRender.sort((a, b) => a - b);
+    // Runs before paint so the view never shows a frame at the new size but the old scroll position
+    useLayoutEffect(() => {
+        const anchor = zoomAnchorRef.current;
+        const container = scrollContainerRef.current;
+        zoomAnchorRef.current = null;
+        if (!anchor || !container) return;
+
+        const pageContainer = pageContainerRefs.current.get(anchor.pageNum);
+        if (!pageContainer) return;
+
+        const containerRect = container.getBoundingClientRect();
+        const pageRect = pageContainer.getBoundingClientRect();
+        container.scrollLeft += pageRect.left - containerRect.left + anchor.x * pageRect.width - anchor.offsetX;
+        container.scrollTop += pageRect.top - containerRect.top + anchor.y * pageRect.height - anchor.offsetY;
+    }, [scale]);
+
+    wheelZoomHandlerRef.current = (e: WheelEvent) => {
+        if (!e.ctrlKey && !e.metaKey) return;
+        e.preventDefault();
+        const factor = Math.exp(-e.deltaY * 0.002);
+        handleZoom(Math.round(scale * factor * 100) / 100, { clientX: e.clientX, clientY: e.clientY });
+    };
 
-            if (pagesToRender.includes(currentPage)) {
-                renderPage(pdfDoc, currentPage);
-            }
+    // Ctrl/Cmd + wheel (and trackpad pinch, which browsers report the same way) zooms at the cursor
+    useEffect(() => {
+        const container = scrollContainerRef.current;
+        if (!container) return;
 
-            pagesToRender.forEach((pageNum, index) => {
-                if (pageNum !== currentPage) {
-                    setTimeout(() => {
-                        renderPage(pdfDoc, pageNum);
-                    }, index * 50);
-                }
-            });
-        }
-    };
+        const handleWheel = (e: WheelEvent) => wheelZoomHandlerRef.current(e);
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [file]);
 
     const handleZoomInput = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter') {
@@ -792,13 +2481,162 @@ const PDFHighlighter = () => {
         const updatedHighlights = highlights.filter(h => h.id !== highlightId);
         setHighlights(updatedHighlights);
         if (highlightToDelete) {
-            renderHighlights(highlightToDelete.pageNumber, updatedHighlights);
+            getHighlightSegments(highlightToDelete).forEach(segment =>
+                renderHighlights(segment.position.boundingRect.pageNumber, updatedHighlights));
+            const entry = recordChange(createHistoryEntry('delete', [highlightToDelete], []));
+            showUndoToast(isStickyNote(highlightToDelete) ? 'Note deleted' : 'Highlight deleted', entry);
+        }
+        if (focusedHighlightId === highlightId) setFocusedHighlightId(null);
+    }, [highlights, renderHighlights, focusedHighlightId]);
+
+    const updateHighlightComment = useCallback((highlightId: string, comment: string) => {
+        setEditingNoteId(null);
+
+        const highlight = highlights.find(h => h.id === highlightId);
+        if (!highlight || (highlight.comment || '') === comment) return;
+        // A sticky note is nothing but its note, so clearing the text removes it
+        if (isStickyNote(highlight) && !comment) {
+            deleteHighlight(highlightId);
+            return;
+        }
+
+        const updated = { ...highlight, comment: comment || undefined };
+        setHighlights(prev => prev.map(h => h.id === highlightId ? updated : h));
+        const entry = recordChange(createHistoryEntry(comment ? 'note edit' : 'note removal', [highlight], [updated]));
+        showUndoToast(comment ? 'Note saved' : 'Note removed', entry);
+    }, [highlights, deleteHighlight]);
+
+    const matchesSearch = (highlight: Highlight) => {
+        const term = searchTerm.toLowerCase();
+        return highlight.content.text.toLowerCase().includes(term) ||
+            (highlight.comment || '').toLowerCase().includes(term);
+    };
+
+    const handlePageClick = (pageNum: number, e: React.MouseEvent<HTMLDivElement>) => {
+        if (suppressPageClickRef.current) return;
+        if (tool === 'note') {
+            placeStickyNote(pageNum, e);
+            return;
+        }
+        if (tool !== 'text') return;
+        setOpenStickyNote(null);
+
+        const selection = window.getSelection();
+        if (selection && !selection.isCollapsed) return;
+
+        const canvas = canvasRefs.current.get(pageNum);
+        if (!canvas) return;
+
+        const canvasRect = canvas.getBoundingClientRect();
+        const { x, y } = rotatePoint({
+            x: (e.clientX - canvasRect.left) / canvasRect.width,
+            y: (e.clientY - canvasRect.top) / canvasRect.height,
+        }, invertRotation(getPageRotation(pageNum)));
+
+        const clicked = highlights
+            .filter(h => getSegmentOnPage(h, pageNum))
+            .reverse()
+            .find(h => (resolvedRectsRef.current.get(`${h.id}@${pageNum}`) || getSegmentOnPage(h, pageNum)?.position.rects || [])
+                .some(r => x >= r.x1 && x <= r.x2 && y >= r.y1 && y <= r.y2));
+        setFocusedHighlightId(clicked ? clicked.id : null);
+        if (!clicked) return;
+
+        if (!matchesSearch(clicked)) setSearchTerm('');
+        if (categoryFilter && getHighlightCategory(clicked, categories)?.id !== categoryFilter) {
+            setCategoryFilter(null);
+        }
+        openNoteEditor(clicked.id);
+    };
+
+    useEffect(() => {
+        setShortcuts(loadShortcuts());
+    }, []);
+
+    const updateShortcuts = useCallback((bindings: ShortcutBindings) => {
+        setShortcuts(bindings);
+        if (!saveShortcuts(bindings)) showToast('Could not save shortcuts; they apply until you reload');
+    }, []);
+
+    const closeShortcutHelp = useCallback(() => setShowShortcutHelp(false), []);
+
+    const openDocumentSearch = () => {
+        setShowDocumentSearch(true);
+        setTimeout(() => {
+            documentSearchInputRef.current?.focus();
+            documentSearchInputRef.current?.select();
+        }, 0);
+    };
+
+    shortcutHandlerRef.current = (e: KeyboardEvent) => {
+        if (showShortcutHelp || showBriefDialog || e.ctrlKey || e.metaKey || e.altKey) return;
+
+        if (isEditableTarget(e.target)) return;
+
+        if (e.key === 'Escape' && tool !== 'text') {
+            setTool('text');
+            return;
+        }
+
+        const action = findShortcutAction(shortcuts, e.key);
+        if (!action) return;
+        e.preventDefault();
+
+        const colorIndex = getColorIndex(action);
+        if (colorIndex !== -1) {
+            if (allColors[colorIndex]) handleColorSelection(allColors[colorIndex]);
+            return;
+        }
+
+        switch (action) {
+            case 'nextPage':
+                goToPage(currentPage + 1);
+                break;
+            case 'previousPage':
+                goToPage(currentPage - 1);
+                break;
+            case 'zoomIn':
+                handleZoom(Math.min(3, scale + 0.25));
+                break;
+            case 'zoomOut':
+                handleZoom(Math.max(0.5, scale - 0.25));
+                break;
+            case 'rotatePage':
+                rotatePage(currentPage);
+                break;
+            case 'focusSearch':
+                openDocumentSearch();
+                break;
+            case 'deleteHighlight':
+                if (focusedHighlightId) deleteHighlight(focusedHighlightId);
+                break;
+            case 'showHelp':
+                setShowShortcutHelp(true);
+                break;
         }
-    }, [highlights, renderHighlights]);
+    };
 
+    useEffect(() => {
+        if (!file) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [file]);
+
+    const focusedHighlight = highlights.find(h => h.id === focusedHighlightId);
+    const canApplyColor = !!selectedText || !!focusedHighlight || tool === 'pen';
+    const hasAnnotations = highlights.length > 0 || inkStrokes.length > 0;
+    const pageCursor = tool === 'area' || tool === 'pen' ? 'crosshair'
+        : tool === 'eraser' ? 'cell'
+        : tool === 'note' ? 'copy'
+        : undefined;
+    const openNote = openStickyNote?.highlightId ? highlights.find(h => h.id === openStickyNote.highlightId) : undefined;
+
+    // Cards follow the document so sticky notes sit among the highlights around them
     const filteredHighlights = highlights.filter(h =>
-        h.text.toLowerCase().includes(searchTerm.toLowerCase())
-    );
+        matchesSearch(h) &&
+        (!categoryFilter || getHighlightCategory(h, categories)?.id === categoryFilter)
+    ).sort(compareDocumentOrder);
 
     if (!file) {
         return (
@@ -855,6 +2693,12 @@ const PDFHighlighter = () => {
                             style={{ display: 'none' }}
                         />
                     </div>
+
+                    <RecentDocuments
+                        documents={recentDocuments}
+                        onOpen={openRecentDocument}
+                        onRemove={removeRecentDocument}
+                    />
                 </div>
             </div>
         );
@@ -881,6 +2725,30 @@ const PDFHighlighter = () => {
                     }}>
                         <Highlighter size={20} />
                         Highlights ({highlights.length})
+                        <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.25rem' }}>
+                            {[
+                                { label: 'Undo', shortcut: 'Ctrl+Z', icon: <Undo2 size={14} />, entry: history.past[history.past.length - 1], onClick: () => undo() },
+                                { label: 'Redo', shortcut: 'Ctrl+Shift+Z', icon: <Redo2 size={14} />, entry: history.future[0], onClick: redo },
+                            ].map(action => (
+                                <button
+                                    key={action.label}
+                                    onClick={action.onClick}
+                                    disabled={!action.entry}
+                                    style={{
+                                        padding: '0.375rem',
+                                        backgroundColor: 'white',
+                                        border: '1px solid #d1d5db',
+                                        borderRadius: '0.375rem',
+                                        cursor: action.entry ? 'pointer' : 'not-allowed',
+                                        opacity: action.entry ? 1 : 0.4,
+                                        display: 'flex',
+                                    }}
+                                    title={action.entry ? `${action.label} ${action.entry.label} (${action.shortcut})` : action.label}
+                                >
+                                    {action.icon}
+                                </button>
+                            ))}
+                        </div>
                     </h3>
                 </div>
 
@@ -911,28 +2779,56 @@ const PDFHighlighter = () => {
                             fontWeight: '600',
                             color: '#374151',
                         }}>
-                            {selectedText ? 'Choose Highlight Color:' : 'Highlight Colors:'}
+                            {selectedText ? 'Choose Highlight Color:' : focusedHighlightId ? 'Recolor Highlight:' : 'Highlight Colors:'}
                         </label>
 
-                        <button
-                            onClick={() => setShowColorPicker(!showColorPicker)}
-                            style={{
-                                padding: '0.25rem 0.5rem',
-                                fontSize: '0.75rem',
-                                backgroundColor: '#f3f4f6',
-                                border: '1px solid #d1d5db',
-                                borderRadius: '0.375rem',
-                                cursor: 'pointer',
-                                display: 'flex',
-                                alignItems: 'center',
-                                gap: '0.25rem',
-                            }}
-                        >
-                            <Palette size={12} />
-                            Add Color
-                        </button>
+                        <div style={{ display: 'flex', gap: '0.25rem' }}>
+                            <button
+                                onClick={() => setShowCategoryManager(!showCategoryManager)}
+                                style={{
+                                    padding: '0.25rem 0.5rem',
+                                    fontSize: '0.75rem',
+                                    backgroundColor: '#f3f4f6',
+                                    border: '1px solid #d1d5db',
+                                    borderRadius: '0.375rem',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.25rem',
+                                }}
+                                title="Rename and reorder categories"
+                            >
+                                <Pencil size={12} />
+                                Edit
+                            </button>
+                            <button
+                                onClick={() => setShowColorPicker(!showColorPicker)}
+                                style={{
+                                    padding: '0.25rem 0.5rem',
+                                    fontSize: '0.75rem',
+                                    backgroundColor: '#f3f4f6',
+                                    border: '1px solid #d1d5db',
+                                    borderRadius: '0.375rem',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.25rem',
+                                }}
+                            >
+                                <Palette size={12} />
+                                Add Color
+                            </button>
+                        </div>
                     </div>
 
+                    {showCategoryManager && (
+                        <CategoryManager
+                            categories={categories}
+                            onChange={setCategories}
+                            onClose={() => setShowCategoryManager(false)}
+                        />
+                    )}
+
                     {showColorPicker && (
                         <div style={{
                             padding: '1rem',
@@ -974,6 +2870,29 @@ const PDFHighlighter = () => {
                         </div>
                     )}
 
+                    <div style={{ display: 'flex', gap: '0.25rem', marginBottom: '0.5rem' }}>
+                        {MARKUP_STYLES.map(style => (
+                            <button
+                                key={style.value}
+                                onClick={() => handleStyleSelection(style.value)}
+                                style={{
+                                    flex: 1,
+                                    padding: '0.375rem',
+                                    backgroundColor: selectedStyle === style.value ? '#eff6ff' : 'white',
+                                    color: selectedStyle === style.value ? '#3b82f6' : '#374151',
+                                    border: `1px solid ${selectedStyle === style.value ? '#3b82f6' : '#d1d5db'}`,
+                                    borderRadius: '0.375rem',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    justifyContent: 'center',
+                                }}
+                                title={!selectedText && focusedHighlight ? `Change to ${style.name.toLowerCase()}` : style.name}
+                            >
+                                <MarkupStyleIcon style={style.value} size={16} />
+                            </button>
+                        ))}
+                    </div>
+
                     <div style={{
                         display: 'grid',
                         gridTemplateColumns: 'repeat(3, 1fr)',
@@ -981,27 +2900,34 @@ const PDFHighlighter = () => {
                         maxHeight: '200px',
                         overflowY: 'auto',
                     }}>
-                        {allColors.map((color, index) => {
-                            const isCustom = index >= defaultColors.length;
+                        {allColors.map((color) => {
+                            const isCustom = isCustomCategory(color);
+                            const description = color.description ? `: ${color.description}` : '';
                             return (
-                                <div key={color.value} style={{ position: 'relative' }}>
+                                <div key={color.id} style={{ position: 'relative' }}>
                                     <button
                                         onClick={() => handleColorSelection(color)}
-                                        disabled={!selectedText}
+                                        disabled={!canApplyColor}
                                         style={{
-                                            width: '48px',
+                                            width: '100%',
                                             height: '48px',
                                             borderRadius: '0.5rem',
-                                            backgroundColor: color.bg,
+                                            backgroundColor: color.background,
                                             border: selectedColor === color.value ? `3px solid ${color.value}` : '2px solid #e5e7eb',
-                                            cursor: selectedText ? 'pointer' : 'not-allowed',
-                                            opacity: selectedText ? 1 : 0.5,
+                                            cursor: canApplyColor ? 'pointer' : 'not-allowed',
+                                            opacity: canApplyColor ? 1 : 0.5,
                                             display: 'flex',
+                                            flexDirection: 'column',
                                             alignItems: 'center',
                                             justifyContent: 'center',
+                                            gap: '0.25rem',
                                             transition: 'all 0.2s',
                                         }}
-                                        title={selectedText ? `Highlight with ${color.name}` : `Select text first - ${color.name}`}
+                                        title={selectedText
+                                            ? `Highlight as ${color.name}${description}`
+                                            : focusedHighlightId
+                                                ? `Recolor as ${color.name}${description}`
+                                                : `Select text or a highlight first - ${color.name}${description}`}
                                     >
                                         <div style={{
                                             width: '20px',
@@ -1009,13 +2935,25 @@ const PDFHighlighter = () => {
                                             backgroundColor: color.value,
                                             borderRadius: '2px',
                                         }} />
+                                        <span style={{
+                                            fontSize: '0.6875rem',
+                                            fontWeight: 600,
+                                            color: '#1f2937',
+                                            maxWidth: '100%',
+                                            overflow: 'hidden',
+                                            textOverflow: 'ellipsis',
+                                            whiteSpace: 'nowrap',
+                                            padding: '0 0.25rem',
+                                        }}>
+                                            {color.name}
+                                        </span>
                                     </button>
 
                                     {isCustom && (
                                         <button
                                             onClick={(e) => {
                                                 e.stopPropagation();
-                                                removeCustomColor(color.value);
+                                                removeCustomColor(color.id);
                                             }}
                                             style={{
                                                 position: 'absolute',
@@ -1048,7 +2986,7 @@ const PDFHighlighter = () => {
                 <div style={{ padding: '1.5rem', borderBottom: '1px solid #e5e7eb' }}>
                     <input
                         type="text"
-                        placeholder="Search highlights..."
+                        placeholder="Search highlights and notes..."
                         value={searchTerm}
                         onChange={(e) => setSearchTerm(e.target.value)}
                         style={{
@@ -1060,19 +2998,44 @@ const PDFHighlighter = () => {
                         }}
                     />
 
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', marginBottom: '0.75rem' }}>
+                        {[null, ...categories].map(category => {
+                            const active = categoryFilter === (category ? category.id : null);
+                            return (
+                                <button
+                                    key={category ? category.id : 'all'}
+                                    onClick={() => setCategoryFilter(category ? category.id : null)}
+                                    style={{
+                                        padding: '0.125rem 0.5rem',
+                                        fontSize: '0.75rem',
+                                        borderRadius: '9999px',
+                                        border: `1px solid ${category ? category.value : '#d1d5db'}`,
+                                        backgroundColor: active ? (category ? category.background : '#e5e7eb') : 'white',
+                                        fontWeight: active ? 600 : 400,
+                                        color: '#1f2937',
+                                        cursor: 'pointer',
+                                    }}
+                                    title={category?.description}
+                                >
+                                    {category ? category.name : 'All'}
+                                </button>
+                            );
+                        })}
+                    </div>
+
                     <div style={{ display: 'flex', gap: '0.5rem' }}>
                         <button
                             onClick={exportPDFWithHighlights}
-                            disabled={highlights.length === 0 || isExporting}
+                            disabled={!hasAnnotations || isExporting}
                             style={{
                                 flex: 1,
                                 padding: '0.5rem',
-                                backgroundColor: (highlights.length > 0 && !isExporting) ? '#3b82f6' : '#9ca3af',
+                                backgroundColor: (hasAnnotations && !isExporting) ? '#3b82f6' : '#9ca3af',
                                 color: 'white',
                                 border: 'none',
                                 borderRadius: '0.375rem',
                                 fontSize: '0.875rem',
-                                cursor: (highlights.length > 0 && !isExporting) ? 'pointer' : 'not-allowed',
+                                cursor: (hasAnnotations && !isExporting) ? 'pointer' : 'not-allowed',
                                 display: 'flex',
                                 alignItems: 'center',
                                 justifyContent: 'center',
@@ -1085,22 +3048,25 @@ const PDFHighlighter = () => {
 
                         <button
                             onClick={() => {
+                                const entry = recordChange(createHistoryEntry('clear all', highlights, [], undefined,
+                                    inkStrokes.length > 0 ? { before: inkStrokes, after: [] } : undefined));
                                 setHighlights([]);
+                                setInkStrokes([]);
                                 for (let pageNum of Array.from(renderedPages)) {
                                     renderHighlights(pageNum, []);
                                 }
-                                showToast('All highlights cleared');
+                                showUndoToast('All highlights cleared', entry);
                             }}
-                            disabled={highlights.length === 0}
+                            disabled={!hasAnnotations}
                             style={{
                                 flex: 1,
                                 padding: '0.5rem',
-                                backgroundColor: highlights.length > 0 ? '#ef4444' : '#9ca3af',
+                                backgroundColor: hasAnnotations ? '#ef4444' : '#9ca3af',
                                 color: 'white',
                                 border: 'none',
                                 borderRadius: '0.375rem',
                                 fontSize: '0.875rem',
-                                cursor: highlights.length > 0 ? 'pointer' : 'not-allowed',
+                                cursor: hasAnnotations ? 'pointer' : 'not-allowed',
                                 display: 'flex',
                                 alignItems: 'center',
                                 justifyContent: 'center',
@@ -1111,6 +3077,88 @@ const PDFHighlighter = () => {
                             Clear All
                         </button>
                     </div>
+
+                    <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+                        <button
+                            onClick={exportHighlightFile}
+                            disabled={!hasAnnotations}
+                            style={{
+                                flex: 1,
+                                padding: '0.5rem',
+                                backgroundColor: 'white',
+                                color: hasAnnotations ? '#374151' : '#9ca3af',
+                                border: '1px solid #d1d5db',
+                                borderRadius: '0.375rem',
+                                fontSize: '0.875rem',
+                                cursor: hasAnnotations ? 'pointer' : 'not-allowed',
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                gap: '0.25rem',
+                            }}
+                            title="Save highlights to a JSON file"
+                        >
+                            <FileDown size={14} />
+                            Export JSON
+                        </button>
+
+                        <button
+                            onClick={() => sidecarInputRef.current?.click()}
+                            style={{
+                                flex: 1,
+                                padding: '0.5rem',
+                                backgroundColor: 'white',
+                                color: '#374151',
+                                border: '1px solid #d1d5db',
+                                borderRadius: '0.375rem',
+                                fontSize: '0.875rem',
+                                cursor: 'pointer',
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                gap: '0.25rem',
+                            }}
+                            title="Load highlights from a JSON file"
+                        >
+                            <FileUp size={14} />
+                            Import JSON
+                        </button>
+                        <input
+                            ref={sidecarInputRef}
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={(e) => {
+                                const sidecarFile = e.target.files?.[0];
+                                e.target.value = '';
+                                if (sidecarFile) importHighlightFile(sidecarFile);
+                            }}
+                            style={{ display: 'none' }}
+                        />
+                    </div>
+
+                    <button
+                        onClick={() => setShowBriefDialog(true)}
+                        disabled={highlights.length === 0}
+                        style={{
+                            width: '100%',
+                            marginTop: '0.5rem',
+                            padding: '0.5rem',
+                            backgroundColor: highlights.length > 0 ? '#10b981' : '#9ca3af',
+                            color: 'white',
+                            border: 'none',
+                            borderRadius: '0.375rem',
+                            fontSize: '0.875rem',
+                            cursor: highlights.length > 0 ? 'pointer' : 'not-allowed',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            gap: '0.25rem',
+                        }}
+                        title="Assemble highlights into a case brief"
+                    >
+                        <FileText size={14} />
+                        Generate Brief
+                    </button>
                 </div>
 
                 <div style={{ flex: 1, overflowY: 'auto', padding: '1rem' }}>
@@ -1125,77 +3173,171 @@ const PDFHighlighter = () => {
                                     <div style={{ fontSize: '2rem', marginBottom: '1rem' }}>✨</div>
                                     <div>No highlights yet</div>
                                     <div style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>
-                                        Select text and click a color to start
-                                    </div>
-                                </div>
-                            ) : 'No matching highlights'}
-                        </div>
-                    ) : (
-                        filteredHighlights.map((highlight, index) => (
-                            <div
-                                key={highlight.id}
-                                onClick={() => goToPage(highlight.pageNumber)}
-                                style={{
-                                    padding: '1rem',
-                                    marginBottom: '0.75rem',
-                                    backgroundColor: highlight.background,
-                                    borderLeft: `4px solid ${highlight.color}`,
-                                    borderRadius: '0.375rem',
-                                    cursor: 'pointer',
-                                    position: 'relative',
-                                    transition: 'transform 0.1s',
-                                }}
-                                onMouseEnter={(e) => {
-                                    e.currentTarget.style.transform = 'translateY(-1px)';
-                                }}
-                                onMouseLeave={(e) => {
-                                    e.currentTarget.style.transform = 'translateY(0)';
-                                }}
-                            >
-                                <button
-                                    onClick={(e) => {
-                                        e.stopPropagation();
-                                        deleteHighlight(highlight.id);
+                                        Select text and click a color to start
+                                    </div>
+                                </div>
+                            ) : 'No matching highlights'}
+                        </div>
+                    ) : (
+                        filteredHighlights.map((highlight) => {
+                            const category = getHighlightCategory(highlight, categories);
+                            return (
+                                <div
+                                    key={highlight.id}
+                                    ref={(el) => {
+                                        if (el) highlightCardRefs.current.set(highlight.id, el);
+                                        else highlightCardRefs.current.delete(highlight.id);
+                                    }}
+                                    onClick={() => {
+                                        setFocusedHighlightId(highlight.id);
+                                        goToPage(getPageNumber(highlight));
                                     }}
                                     style={{
-                                        position: 'absolute',
-                                        top: '0.5rem',
-                                        right: '0.5rem',
-                                        width: '24px',
-                                        height: '24px',
-                                        borderRadius: '50%',
-                                        backgroundColor: '#ef4444',
-                                        color: 'white',
-                                        border: 'none',
+                                        padding: '1rem',
+                                        marginBottom: '0.75rem',
+                                        backgroundColor: getHighlightBackground(highlight.color, allColors),
+                                        borderLeft: `4px solid ${highlight.color}`,
+                                        borderRadius: '0.375rem',
+                                        boxShadow: focusedHighlightId === highlight.id ? `0 0 0 2px ${highlight.color}` : 'none',
                                         cursor: 'pointer',
-                                        fontSize: '1rem',
-                                        display: 'flex',
-                                        alignItems: 'center',
-                                        justifyContent: 'center',
+                                        position: 'relative',
+                                        transition: 'transform 0.1s',
+                                    }}
+                                    onMouseEnter={(e) => {
+                                        e.currentTarget.style.transform = 'translateY(-1px)';
+                                    }}
+                                    onMouseLeave={(e) => {
+                                        e.currentTarget.style.transform = 'translateY(0)';
                                     }}
                                 >
-                                    ×
-                                </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            deleteHighlight(highlight.id);
+                                        }}
+                                        style={{
+                                            position: 'absolute',
+                                            top: '0.5rem',
+                                            right: '0.5rem',
+                                            width: '24px',
+                                            height: '24px',
+                                            borderRadius: '50%',
+                                            backgroundColor: '#ef4444',
+                                            color: 'white',
+                                            border: 'none',
+                                            cursor: 'pointer',
+                                            fontSize: '1rem',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                        }}
+                                    >
+                                        ×
+                                    </button>
 
-                                <div style={{
-                                    fontSize: '0.75rem',
-                                    color: '#6b7280',
-                                    marginBottom: '0.5rem',
-                                }}>
-                                    Page {highlight.pageNumber} • {highlight.created}
-                                </div>
+                                    <div style={{
+                                        fontSize: '0.75rem',
+                                        color: '#6b7280',
+                                        marginBottom: '0.5rem',
+                                    }}>
+                                        <span
+                                            style={{ display: 'inline-flex', verticalAlign: 'middle', marginRight: '0.25rem' }}
+                                            title={isStickyNote(highlight) ? 'Sticky note' : MARKUP_STYLES.find(s => s.value === getMarkupStyle(highlight))?.name}
+                                        >
+                                            {isStickyNote(highlight)
+                                                ? <StickyNote size={12} color={highlight.color} style={{ flexShrink: 0 }} />
+                                                : <MarkupStyleIcon style={getMarkupStyle(highlight)} size={12} color={highlight.color} />}
+                                        </span>
+                                        {category && (
+                                            <span style={{ fontWeight: 600, color: highlight.color }}>
+                                                {category.name} •{' '}
+                                            </span>
+                                        )}
+                                        {getLastPageNumber(highlight) > getPageNumber(highlight)
+                                            ? `Pages ${getPageNumber(highlight)}–${getLastPageNumber(highlight)}`
+                                            : `Page ${getPageNumber(highlight)}`} • {highlight.created.toLocaleTimeString()}
+                                        {highlight.author && ` • ${highlight.author}`}
+                                    </div>
 
-                                <div style={{
-                                    fontSize: '0.875rem',
-                                    color: '#1f2937',
-                                    paddingRight: '2rem',
-                                    lineHeight: '1.4',
-                                }}>
-                                    "{highlight.text.substring(0, 150)}
-                                    {highlight.text.length > 150 ? '...' : ''}"
+                                    {isAreaHighlight(highlight) && (
+                                        <img
+                                            src={highlight.content.image}
+                                            alt={`Area on page ${getPageNumber(highlight)}`}
+                                            style={{
+                                                display: 'block',
+                                                maxWidth: 'calc(100% - 2rem)',
+                                                maxHeight: '120px',
+                                                marginBottom: highlight.content.text ? '0.5rem' : 0,
+                                                border: '1px solid #e5e7eb',
+                                                borderRadius: '0.25rem',
+                                            }}
+                                        />
+                                    )}
+
+                                    {highlight.content.text && (
+                                        <div style={{
+                                            fontSize: '0.875rem',
+                                            color: '#1f2937',
+                                            paddingRight: '2rem',
+                                            lineHeight: '1.4',
+                                        }}>
+                                            "{highlight.content.text.substring(0, 150)}
+                                            {highlight.content.text.length > 150 ? '...' : ''}"
+                                        </div>
+                                    )}
+
+                                    {editingNoteId === highlight.id ? (
+                                        <NoteEditor
+                                            initialValue={highlight.comment}
+                                            onSave={(comment) => updateHighlightComment(highlight.id, comment)}
+                                            onCancel={() => setEditingNoteId(null)}
+                                        />
+                                    ) : highlight.comment ? (
+                                        <div
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                openNoteEditor(highlight.id);
+                                            }}
+                                            style={{
+                                                marginTop: '0.5rem',
+                                                padding: '0.5rem',
+                                                backgroundColor: 'rgba(255, 255, 255, 0.7)',
+                                                borderRadius: '0.25rem',
+                                                fontSize: '0.8125rem',
+                                                color: '#374151',
+                                                whiteSpace: 'pre-wrap',
+                                                cursor: 'text',
+                                            }}
+                                            title="Edit note"
+                                        >
+                                            {highlight.comment}
+                                        </div>
+                                    ) : (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                openNoteEditor(highlight.id);
+                                            }}
+                                            style={{
+                                                marginTop: '0.5rem',
+                                                padding: '0.125rem 0.375rem',
+                                                fontSize: '0.75rem',
+                                                color: '#4b5563',
+                                                backgroundColor: 'transparent',
+                                                border: 'none',
+                                                cursor: 'pointer',
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                gap: '0.25rem',
+                                            }}
+                                        >
+                                            <MessageSquare size={12} />
+                                            Add note
+                                        </button>
+                                    )}
                                 </div>
-                            </div>
-                        ))
+                            );
+                        })
                     )}
                 </div>
             </div>
@@ -1224,6 +3366,53 @@ const PDFHighlighter = () => {
                             ← Back
                         </button>
 
+                        <button
+                            onClick={() => setShowThumbnails(!showThumbnails)}
+                            style={{
+                                padding: '0.5rem',
+                                border: `1px solid ${showThumbnails ? '#3b82f6' : '#d1d5db'}`,
+                                borderRadius: '0.375rem',
+                                backgroundColor: showThumbnails ? '#dbeafe' : 'white',
+                                cursor: 'pointer',
+                            }}
+                            title="Page thumbnails"
+                        >
+                            <PanelLeft size={16} />
+                        </button>
+                        <button
+                            onClick={() => setShowOutline(!showOutline)}
+                            style={{
+                                padding: '0.5rem',
+                                border: `1px solid ${showOutline ? '#3b82f6' : '#d1d5db'}`,
+                                borderRadius: '0.375rem',
+                                backgroundColor: showOutline ? '#dbeafe' : 'white',
+                                cursor: 'pointer',
+                            }}
+                            title="Document outline"
+                        >
+                            <ListTree size={16} />
+                        </button>
+                        {backStack.length > 0 && (
+                            <button
+                                onClick={goBack}
+                                style={{
+                                    padding: '0.5rem',
+                                    border: '1px solid #d1d5db',
+                                    borderRadius: '0.375rem',
+                                    backgroundColor: 'white',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.25rem',
+                                    fontSize: '0.875rem',
+                                }}
+                                title={`Back to page ${backStack[backStack.length - 1].pageNum}`}
+                            >
+                                <CornerUpLeft size={16} />
+                                Back to p. {backStack[backStack.length - 1].pageNum}
+                            </button>
+                        )}
+
                         <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                             <button
                                 onClick={() => goToPage(currentPage - 1)}
@@ -1350,114 +3539,431 @@ const PDFHighlighter = () => {
                             >
                                 <ZoomIn size={16} />
                             </button>
-                        </div>
-                    </div>
 
-                    <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>
-                        {file.name}
+                            <button
+                                onClick={() => toggleZoomMode('fit-width')}
+                                style={{
+                                    padding: '0.5rem',
+                                    border: `1px solid ${zoomMode === 'fit-width' ? '#3b82f6' : '#d1d5db'}`,
+                                    borderRadius: '0.375rem',
+                                    backgroundColor: zoomMode === 'fit-width' ? '#dbeafe' : 'white',
+                                    cursor: 'pointer',
+                                }}
+                                title="Fit to width"
+                            >
+                                <MoveHorizontal size={16} />
+                            </button>
+                            <button
+                                onClick={() => toggleZoomMode('fit-page')}
+                                style={{
+                                    padding: '0.5rem',
+                                    border: `1px solid ${zoomMode === 'fit-page' ? '#3b82f6' : '#d1d5db'}`,
+                                    borderRadius: '0.375rem',
+                                    backgroundColor: zoomMode === 'fit-page' ? '#dbeafe' : 'white',
+                                    cursor: 'pointer',
+                                }}
+                                title="Fit whole page"
+                            >
+                                <Maximize size={16} />
+                            </button>
+                            <button
+                                onClick={rotateDocument}
+                                style={{
+                                    padding: '0.5rem',
+                                    border: '1px solid #d1d5db',
+                                    borderRadius: '0.375rem',
+                                    backgroundColor: 'white',
+                                    cursor: 'pointer',
+                                }}
+                                title="Rotate all pages"
+                            >
+                                <RotateCw size={16} />
+                            </button>
+                        </div>
                     </div>
-                </div>
 
-                <div
-                    ref={scrollContainerRef}
-                    style={{
-                        flex: 1,
-                        overflow: 'auto',
-                        backgroundColor: '#e5e7eb',
-                        padding: '2rem',
-                    }}
-                >
-                    {isLoading ? (
-                        <div style={{
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            minHeight: '400px'
-                        }}>
-                            <div style={{ fontSize: '1.25rem', color: '#6b7280' }}>Loading PDF...</div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                        <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>
+                            {file.name}
                         </div>
-                    ) : (
-                        <div style={{
-                            display: 'flex',
-                            flexDirection: 'column',
-                            alignItems: 'center',
-                            gap: '2rem'
-                        }}>
-                            {Array.from({ length: totalPages }, (_, i) => i + 1).map(pageNum => (
-                                <div
-                                    key={pageNum}
-                                    ref={(el) => {
-                                        if (el) pageContainerRefs.current.set(pageNum, el);
-                                    }}
+                        <button
+                            onClick={() => setShowDocumentSearch(!showDocumentSearch)}
+                            style={{
+                                padding: '0.5rem',
+                                border: `1px solid ${showDocumentSearch ? '#3b82f6' : '#d1d5db'}`,
+                                borderRadius: '0.375rem',
+                                backgroundColor: showDocumentSearch ? '#dbeafe' : 'white',
+                                cursor: 'pointer',
+                            }}
+                            title="Search document (/)"
+                        >
+                            <Search size={16} />
+                        </button>
+                        <button
+                            onClick={() => toggleTool('area')}
+                            style={{
+                                padding: '0.5rem',
+                                border: `1px solid ${tool === 'area' ? '#3b82f6' : '#d1d5db'}`,
+                                borderRadius: '0.375rem',
+                                backgroundColor: tool === 'area' ? '#dbeafe' : 'white',
+                                cursor: 'pointer',
+                            }}
+                            title={tool === 'area' ? 'Stop selecting areas (Esc)' : 'Highlight an area: drag a rectangle over a table, figure or scanned text'}
+                        >
+                            <SquareDashedMousePointer size={16} />
+                        </button>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                            <button
+                                onClick={() => toggleTool('pen')}
+                                style={{
+                                    padding: '0.5rem',
+                                    border: `1px solid ${tool === 'pen' ? '#3b82f6' : '#d1d5db'}`,
+                                    borderRadius: '0.375rem',
+                                    backgroundColor: tool === 'pen' ? '#dbeafe' : 'white',
+                                    cursor: 'pointer',
+                                }}
+                                title={tool === 'pen' ? 'Stop drawing (Esc)' : 'Pen: draw on the page in the selected color'}
+                            >
+                                <PenLine size={16} color={tool === 'pen' ? selectedColor : undefined} />
+                            </button>
+                            {tool === 'pen' && INK_WIDTHS.map(width => (
+                                <button
+                                    key={width.value}
+                                    onClick={() => setInkWidth(width.value)}
                                     style={{
-                                        position: 'relative',
-                                        backgroundColor: 'white',
-                                        boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
-                                        userSelect: 'text',
-                                        border: currentPage === pageNum ? '2px solid #3b82f6' : '1px solid #e5e7eb',
-                                        borderRadius: '4px',
-                                        overflow: 'hidden',
+                                        width: '28px',
+                                        height: '28px',
+                                        border: `1px solid ${inkWidth === width.value ? '#3b82f6' : '#d1d5db'}`,
+                                        borderRadius: '0.375rem',
+                                        backgroundColor: inkWidth === width.value ? '#dbeafe' : 'white',
+                                        cursor: 'pointer',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        justifyContent: 'center',
                                     }}
+                                    title={`${width.name} pen`}
                                 >
-                                    <div style={{
-                                        position: 'absolute',
-                                        top: '-10px',
-                                        left: '20px',
-                                        backgroundColor: currentPage === pageNum ? '#3b82f6' : '#6b7280',
-                                        color: 'white',
-                                        padding: '4px 12px',
-                                        borderRadius: '12px',
-                                        fontSize: '0.75rem',
-                                        fontWeight: '600',
-                                        zIndex: 10,
-                                    }}>
-                                        Page {pageNum}
-                                    </div>
+                                    <span style={{
+                                        width: `${width.value * 2 + 2}px`,
+                                        height: `${width.value * 2 + 2}px`,
+                                        borderRadius: '50%',
+                                        backgroundColor: selectedColor,
+                                    }} />
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => toggleTool('eraser')}
+                                style={{
+                                    padding: '0.5rem',
+                                    border: `1px solid ${tool === 'eraser' ? '#3b82f6' : '#d1d5db'}`,
+                                    borderRadius: '0.375rem',
+                                    backgroundColor: tool === 'eraser' ? '#dbeafe' : 'white',
+                                    cursor: 'pointer',
+                                }}
+                                title={tool === 'eraser' ? 'Stop erasing (Esc)' : 'Eraser: drag over pen strokes to remove them'}
+                            >
+                                <Eraser size={16} />
+                            </button>
+                            <button
+                                onClick={() => toggleTool('note')}
+                                style={{
+                                    padding: '0.5rem',
+                                    border: `1px solid ${tool === 'note' ? '#3b82f6' : '#d1d5db'}`,
+                                    borderRadius: '0.375rem',
+                                    backgroundColor: tool === 'note' ? '#dbeafe' : 'white',
+                                    cursor: 'pointer',
+                                }}
+                                title={tool === 'note' ? 'Cancel sticky note (Esc)' : 'Sticky note: click anywhere on a page to pin a note'}
+                            >
+                                <StickyNote size={16} />
+                            </button>
+                        </div>
+                        <button
+                            onClick={() => setShowShortcutHelp(true)}
+                            style={{
+                                padding: '0.5rem',
+                                border: '1px solid #d1d5db',
+                                borderRadius: '0.375rem',
+                                backgroundColor: 'white',
+                                cursor: 'pointer',
+                            }}
+                            title="Keyboard shortcuts (?)"
+                        >
+                            <Keyboard size={16} />
+                        </button>
+                    </div>
+                </div>
 
-                                    <canvas
-                                        ref={(el) => {
-                                            if (el) canvasRefs.current.set(pageNum, el);
-                                        }}
-                                        style={{ display: 'block' }}
-                                    />
+                <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+                    {showOutline && (
+                        <OutlinePanel outline={outline} onSelect={selectOutlineEntry} />
+                    )}
+                    {showThumbnails && pdfDoc && !isLoading && (
+                        <ThumbnailStrip
+                            pdfDoc={pdfDoc}
+                            totalPages={totalPages}
+                            currentPage={currentPage}
+                            highlights={highlights}
+                            rotation={rotation}
+                            pageRotations={pageRotations}
+                            getPageSize={getDisplayedPageSize}
+                            onSelectPage={goToPage}
+                        />
+                    )}
+                    <div
+                        ref={scrollContainerRef}
+                        style={{
+                            flex: 1,
+                            minWidth: 0,
+                            overflow: 'auto',
+                            backgroundColor: '#e5e7eb',
+                            padding: '2rem',
+                        }}
+                    >
+                        {isLoading ? (
+                            <div style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                minHeight: '400px'
+                            }}>
+                                <div style={{ fontSize: '1.25rem', color: '#6b7280' }}>Loading PDF...</div>
+                            </div>
+                        ) : (
+                            <div style={{
+                                display: 'flex',
+                                flexDirection: 'column',
+                                alignItems: 'center',
+                                gap: '2rem'
+                            }}>
+                                {Array.from({ length: totalPages }, (_, i) => i + 1).map(pageNum => (
                                     <div
+                                        key={pageNum}
                                         ref={(el) => {
-                                            if (el) textLayerRefs.current.set(pageNum, el);
+                                            if (el) pageContainerRefs.current.set(pageNum, el);
+                                            else pageContainerRefs.current.delete(pageNum);
                                         }}
-                                        className="textLayer"
+                                        data-page-number={pageNum}
+                                        onClick={(e) => handlePageClick(pageNum, e)}
+                                        onMouseDown={(e) => startAreaSelection(pageNum, e)}
                                         style={{
-                                            position: 'absolute',
-                                            left: 0,
-                                            top: 0,
-                                            right: 0,
-                                            bottom: 0,
+                                            position: 'relative',
+                                            width: `${Math.floor(getDisplayedPageSize(pageNum).width * scale)}px`,
+                                            height: `${Math.floor(getDisplayedPageSize(pageNum).height * scale)}px`,
+                                            flexShrink: 0,
+                                            backgroundColor: 'white',
+                                            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+                                            userSelect: tool === 'text' ? 'text' : 'none',
+                                            cursor: pageCursor,
+                                            border: currentPage === pageNum ? '2px solid #3b82f6' : '1px solid #e5e7eb',
+                                            borderRadius: '4px',
                                             overflow: 'hidden',
-                                            opacity: 0.2,
-                                            lineHeight: 1,
-                                            userSelect: 'text',
-                                            cursor: 'text',
                                         }}
-                                    />
-                                    <div
-                                        ref={(el) => {
-                                            if (el) highlightLayerRefs.current.set(pageNum, el);
-                                        }}
-                                        style={{
+                                    >
+                                        <div style={{
                                             position: 'absolute',
-                                            left: 0,
-                                            top: 0,
-                                            right: 0,
-                                            bottom: 0,
-                                            pointerEvents: 'none',
-                                        }}
-                                    />
-                                </div>
-                            ))}
-                        </div>
+                                            top: '-10px',
+                                            left: '20px',
+                                            backgroundColor: currentPage === pageNum ? '#3b82f6' : '#6b7280',
+                                            color: 'white',
+                                            padding: '4px 12px',
+                                            borderRadius: '12px',
+                                            fontSize: '0.75rem',
+                                            fontWeight: '600',
+                                            zIndex: 10,
+                                            userSelect: 'none',
+                                        }}>
+                                            Page {pageNum}
+                                        </div>
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                rotatePage(pageNum);
+                                            }}
+                                            onMouseDown={(e) => e.stopPropagation()}
+                                            style={{
+                                                position: 'absolute',
+                                                top: '6px',
+                                                right: '6px',
+                                                padding: '0.25rem',
+                                                backgroundColor: 'rgba(255, 255, 255, 0.85)',
+                                                border: '1px solid #d1d5db',
+                                                borderRadius: '0.375rem',
+                                                color: '#6b7280',
+                                                cursor: 'pointer',
+                                                display: 'flex',
+                                                zIndex: 10,
+                                            }}
+                                            title="Rotate this page (R)"
+                                        >
+                                            <RotateCw size={14} />
+                                        </button>
+
+                                        {livePages.has(pageNum) && (
+                                            <>
+                                                <canvas
+                                                    ref={(el) => {
+                                                        if (el) canvasRefs.current.set(pageNum, el);
+                                                        else canvasRefs.current.delete(pageNum);
+                                                    }}
+                                                    style={{ display: 'block', width: '100%', height: '100%' }}
+                                                />
+                                                <div
+                                                    ref={(el) => {
+                                                        if (el) textLayerRefs.current.set(pageNum, el);
+                                                        else textLayerRefs.current.delete(pageNum);
+                                                    }}
+                                                    className="textLayer"
+                                                    style={{
+                                                        // pdf.js sizes text spans from this, so they track a zoom before the page re-renders
+                                                        ['--scale-factor' as string]: scale,
+                                                        position: 'absolute',
+                                                        left: 0,
+                                                        top: 0,
+                                                        right: 0,
+                                                        bottom: 0,
+                                                        overflow: 'hidden',
+                                                        opacity: 0.2,
+                                                        lineHeight: 1,
+                                                        userSelect: tool === 'text' ? 'text' : 'none',
+                                                        cursor: pageCursor || 'text',
+                                                    }}
+                                                />
+                                                <div
+                                                    ref={(el) => {
+                                                        if (el) highlightLayerRefs.current.set(pageNum, el);
+                                                        else highlightLayerRefs.current.delete(pageNum);
+                                                    }}
+                                                    style={{
+                                                        position: 'absolute',
+                                                        left: 0,
+                                                        top: 0,
+                                                        right: 0,
+                                                        bottom: 0,
+                                                        pointerEvents: 'none',
+                                                    }}
+                                                />
+                                                <div
+                                                    ref={(el) => {
+                                                        if (el) linkLayerRefs.current.set(pageNum, el);
+                                                        else linkLayerRefs.current.delete(pageNum);
+                                                    }}
+                                                    style={{
+                                                        position: 'absolute',
+                                                        left: 0,
+                                                        top: 0,
+                                                        right: 0,
+                                                        bottom: 0,
+                                                        pointerEvents: 'none',
+                                                        display: tool === 'text' ? 'block' : 'none',
+                                                    }}
+                                                />
+                                                <svg
+                                                    viewBox="0 0 1 1"
+                                                    preserveAspectRatio="none"
+                                                    onPointerDown={(e) => startInkGesture(pageNum, e)}
+                                                    style={{
+                                                        position: 'absolute',
+                                                        left: 0,
+                                                        top: 0,
+                                                        width: '100%',
+                                                        height: '100%',
+                                                        pointerEvents: tool === 'pen' || tool === 'eraser' ? 'auto' : 'none',
+                                                        touchAction: 'none',
+                                                        cursor: pageCursor,
+                                                    }}
+                                                >
+                                                    <g transform={getRotationTransform(getPageRotation(pageNum))}>
+                                                        {inkStrokes.filter(stroke => stroke.pageNumber === pageNum).map(stroke => (
+                                                            <path
+                                                                key={stroke.id}
+                                                                d={getInkPath(stroke.points)}
+                                                                fill="none"
+                                                                stroke={stroke.color}
+                                                                strokeWidth={stroke.width * scale}
+                                                                strokeLinecap="round"
+                                                                strokeLinejoin="round"
+                                                                vectorEffect="non-scaling-stroke"
+                                                            />
+                                                        ))}
+                                                    </g>
+                                                </svg>
+                                                {focusedHighlight && !isStickyNote(focusedHighlight) && getPageNumber(focusedHighlight) === pageNum && renderedPages.has(pageNum) && (
+                                                    <HighlightToolbar
+                                                        bounds={rotateRect(createPosition(pageNum, resolvedRectsRef.current.get(`${focusedHighlight.id}@${pageNum}`) || focusedHighlight.position.rects).boundingRect, getPageRotation(pageNum))}
+                                                        colors={allColors}
+                                                        activeColor={focusedHighlight.color}
+                                                        activeStyle={getMarkupStyle(focusedHighlight)}
+                                                        onRecolor={(color) => recolorHighlight(focusedHighlight.id, color)}
+                                                        onRestyle={(style) => restyleHighlight(focusedHighlight.id, style)}
+                                                        onDelete={() => deleteHighlight(focusedHighlight.id)}
+                                                    />
+                                                )}
+                                                {openStickyNote && openStickyNote.pageNum === pageNum && (!openStickyNote.highlightId || openNote) && (
+                                                    <StickyNotePopover
+                                                        key={openStickyNote.highlightId || 'new'}
+                                                        bounds={rotateRect(openStickyNote.rect, getPageRotation(pageNum))}
+                                                        color={openNote ? openNote.color : selectedColor}
+                                                        text={openNote?.comment}
+                                                        onSave={saveStickyNote}
+                                                        onClose={() => setOpenStickyNote(null)}
+                                                        onDelete={openNote ? () => {
+                                                            setOpenStickyNote(null);
+                                                            deleteHighlight(openNote.id);
+                                                        } : undefined}
+                                                    />
+                                                )}
+                                            </>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {showDocumentSearch && (
+                        <DocumentSearch
+                            query={documentQuery}
+                            options={searchOptions}
+                            hits={searchHits}
+                            activeIndex={activeHitIndex}
+                            error={searchError}
+                            indexedPages={indexedPageCount}
+                            totalPages={totalPages}
+                            highlightColor={selectedColor}
+                            inputRef={documentSearchInputRef}
+                            onQueryChange={setDocumentQuery}
+                            onOptionsChange={setSearchOptions}
+                            onSelectHit={goToSearchHit}
+                            onHighlightAll={highlightAllMatches}
+                            onClose={() => {
+                                setShowDocumentSearch(false);
+                                setDocumentQuery('');
+                            }}
+                        />
                     )}
                 </div>
             </div>
 
+            {showBriefDialog && (
+                <BriefDialog
+                    fileName={file.name}
+                    highlights={highlights}
+                    categories={categories}
+                    onClose={() => setShowBriefDialog(false)}
+                    onMessage={showToast}
+                />
+            )}
+
+            {showShortcutHelp && (
+                <ShortcutHelp
+                    bindings={shortcuts}
+                    colors={allColors}
+                    onChange={updateShortcuts}
+                    onClose={closeShortcutHelp}
+                />
+            )}
+
             <style>{`
         .textLayer {
           font-family: sans-serif;
@@ -1487,10 +3993,4 @@ const PDFHighlighter = () => {
     );
 };
 
-declare global {
-    interface Window {
-        pdfjsLib: any;
-    }
-}
-
 export default PDFHighlighter;
\ No newline at end of file
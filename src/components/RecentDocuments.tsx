@@ -0,0 +1,89 @@
+// src/components/RecentDocuments.tsx
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { RecentDocument } from '@/lib/documentStore';
+
+interface RecentDocumentsProps {
+    documents: RecentDocument[];
+    onOpen: (id: string) => void;
+    onRemove: (id: string) => void;
+}
+
+const formatSize = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// PDFs opened before are kept in the browser, so they reopen here without the file or a connection
+const RecentDocuments = ({ documents, onOpen, onRemove }: RecentDocumentsProps) => {
+    if (documents.length === 0) return null;
+
+    return (
+        <div style={{ marginTop: '2rem', textAlign: 'left' }}>
+            <h3 style={{ fontSize: '1rem', fontWeight: '600', color: '#374151', marginBottom: '0.75rem' }}>
+                Recent documents
+            </h3>
+            <div style={{
+                backgroundColor: 'white',
+                border: '1px solid #e5e7eb',
+                borderRadius: '0.75rem',
+                overflow: 'hidden',
+            }}>
+                {documents.map((doc, index) => (
+                    <div
+                        key={doc.id}
+                        onClick={() => onOpen(doc.id)}
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '0.75rem',
+                            padding: '0.75rem 1rem',
+                            borderTop: index > 0 ? '1px solid #f3f4f6' : 'none',
+                            cursor: 'pointer',
+                        }}
+                        onMouseEnter={(e) => {
+                            e.currentTarget.style.backgroundColor = '#f0f9ff';
+                        }}
+                        onMouseLeave={(e) => {
+                            e.currentTarget.style.backgroundColor = 'transparent';
+                        }}
+                        title={`Open ${doc.fileName}`}
+                    >
+                        <FileText size={20} color="#3b82f6" style={{ flexShrink: 0 }} />
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{
+                                fontWeight: '500',
+                                color: '#1f2937',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                whiteSpace: 'nowrap',
+                            }}>
+                                {doc.fileName}
+                            </div>
+                            <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                                {doc.highlightCount} highlight{doc.highlightCount === 1 ? '' : 's'} • {formatSize(doc.size)} • {new Date(doc.openedAt).toLocaleDateString()}
+                            </div>
+                        </div>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onRemove(doc.id);
+                            }}
+                            style={{
+                                padding: '0.25rem',
+                                backgroundColor: 'transparent',
+                                border: 'none',
+                                color: '#9ca3af',
+                                cursor: 'pointer',
+                                display: 'flex',
+                            }}
+                            title="Remove from this browser, including its highlights"
+                        >
+                            <X size={16} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default RecentDocuments;
@@ -0,0 +1,172 @@
+// src/components/ShortcutHelp.tsx
+import React, { useEffect, useState } from 'react';
+import { HighlightCategory } from '@/types/highlight';
+import {
+    DEFAULT_SHORTCUTS,
+    formatKey,
+    getColorIndex,
+    rebindShortcut,
+    SHORTCUT_DEFINITIONS,
+    ShortcutAction,
+    ShortcutBindings,
+} from '@/lib/shortcuts';
+
+interface ShortcutHelpProps {
+    bindings: ShortcutBindings;
+    colors: HighlightCategory[];
+    onChange: (bindings: ShortcutBindings) => void;
+    onClose: () => void;
+}
+
+const ShortcutHelp = ({ bindings, colors, onChange, onClose }: ShortcutHelpProps) => {
+    const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+
+            e.preventDefault();
+            if (recording) {
+                if (e.key !== 'Escape') onChange(rebindShortcut(bindings, recording, e.key));
+                setRecording(null);
+            } else if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [recording, bindings, onChange, onClose]);
+
+    const describe = (action: ShortcutAction, fallback: string) => {
+        const colorIndex = getColorIndex(action);
+        if (colorIndex === -1) return fallback;
+        return colors[colorIndex] ? `Highlight as ${colors[colorIndex].name}` : `${fallback} (unused)`;
+    };
+
+    const keyStyle: React.CSSProperties = {
+        display: 'inline-block',
+        minWidth: '1.5rem',
+        padding: '0.125rem 0.375rem',
+        marginRight: '0.25rem',
+        backgroundColor: '#f3f4f6',
+        border: '1px solid #d1d5db',
+        borderBottomWidth: '2px',
+        borderRadius: '0.25rem',
+        fontFamily: 'monospace',
+        fontSize: '0.8125rem',
+        textAlign: 'center',
+    };
+
+    return (
+        <div
+            onClick={(e) => {
+                if (e.target === e.currentTarget) onClose();
+            }}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                background: 'rgba(0, 0, 0, 0.5)',
+                zIndex: 10000,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+            }}
+        >
+            <div style={{
+                background: 'white',
+                padding: '2rem',
+                borderRadius: '1rem',
+                maxWidth: '480px',
+                width: '90%',
+                maxHeight: '90vh',
+                overflowY: 'auto',
+                boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)',
+            }}>
+                <h3 style={{ marginBottom: '0.5rem', fontSize: '1.25rem', fontWeight: 600 }}>
+                    Keyboard Shortcuts
+                </h3>
+                <p style={{ marginBottom: '1.5rem', color: '#6b7280', fontSize: '0.875rem' }}>
+                    Click Change and press a new key to remap an action. Esc cancels.
+                </p>
+
+                {SHORTCUT_DEFINITIONS.map(({ action, description }) => (
+                    <div
+                        key={action}
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '0.75rem',
+                            padding: '0.375rem 0',
+                            borderBottom: '1px solid #f3f4f6',
+                            fontSize: '0.875rem',
+                        }}
+                    >
+                        <span style={{ flex: 1, color: '#1f2937' }}>{describe(action, description)}</span>
+                        <span style={{ minWidth: '90px' }}>
+                            {recording === action ? (
+                                <span style={{ color: '#3b82f6', fontSize: '0.8125rem' }}>Press a key...</span>
+                            ) : bindings[action].length > 0 ? (
+                                bindings[action].map(key => <kbd key={key} style={keyStyle}>{formatKey(key)}</kbd>)
+                            ) : (
+                                <span style={{ color: '#9ca3af', fontSize: '0.8125rem' }}>None</span>
+                            )}
+                        </span>
+                        <button
+                            onClick={() => setRecording(recording === action ? null : action)}
+                            style={{
+                                padding: '0.125rem 0.5rem',
+                                fontSize: '0.75rem',
+                                backgroundColor: '#f3f4f6',
+                                border: '1px solid #d1d5db',
+                                borderRadius: '0.25rem',
+                                cursor: 'pointer',
+                            }}
+                        >
+                            {recording === action ? 'Cancel' : 'Change'}
+                        </button>
+                    </div>
+                ))}
+
+                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1.5rem' }}>
+                    <button
+                        onClick={() => onChange(DEFAULT_SHORTCUTS)}
+                        style={{
+                            flex: 1,
+                            padding: '0.5rem',
+                            backgroundColor: 'white',
+                            color: '#374151',
+                            border: '1px solid #d1d5db',
+                            borderRadius: '0.375rem',
+                            fontSize: '0.875rem',
+                            cursor: 'pointer',
+                        }}
+                    >
+                        Reset to Defaults
+                    </button>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            flex: 1,
+                            padding: '0.5rem',
+                            backgroundColor: '#6b7280',
+                            color: 'white',
+                            border: 'none',
+                            borderRadius: '0.375rem',
+                            fontSize: '0.875rem',
+                            cursor: 'pointer',
+                        }}
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutHelp;
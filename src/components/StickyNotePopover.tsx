@@ -0,0 +1,88 @@
+// src/components/StickyNotePopover.tsx
+import React, { useState } from 'react';
+import { Pencil, Trash2, X } from 'lucide-react';
+import NoteEditor from '@/components/NoteEditor';
+import { HighlightRect } from '@/types/highlight';
+
+interface StickyNotePopoverProps {
+    bounds: HighlightRect;
+    color: string;
+    text?: string;
+    onSave: (text: string) => void;
+    onClose: () => void;
+    onDelete?: () => void;
+}
+
+// Expanded view of a sticky note next to its icon; new notes open straight into the editor
+const StickyNotePopover = ({ bounds, color, text, onSave, onClose, onDelete }: StickyNotePopoverProps) => {
+    const [isEditing, setIsEditing] = useState(!text);
+    const openLeft = bounds.x2 > 0.65;
+    const openUp = bounds.y1 > 0.75;
+
+    const iconButtonStyle: React.CSSProperties = {
+        padding: '0.125rem',
+        backgroundColor: 'transparent',
+        border: 'none',
+        color: '#6b7280',
+        cursor: 'pointer',
+        display: 'flex',
+    };
+
+    return (
+        <div
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            style={{
+                position: 'absolute',
+                top: openUp ? undefined : `${bounds.y1 * 100}%`,
+                bottom: openUp ? `${(1 - bounds.y2) * 100}%` : undefined,
+                left: openLeft ? undefined : `calc(${bounds.x2 * 100}% + 6px)`,
+                right: openLeft ? `calc(${(1 - bounds.x1) * 100}% + 6px)` : undefined,
+                width: '240px',
+                padding: '0.5rem',
+                backgroundColor: '#fffbeb',
+                border: `1px solid ${color}`,
+                borderTop: `4px solid ${color}`,
+                borderRadius: '0.375rem',
+                boxShadow: '0 4px 6px rgba(0, 0, 0, 0.15)',
+                zIndex: 20,
+                userSelect: 'text',
+            }}
+        >
+            {isEditing ? (
+                <NoteEditor
+                    initialValue={text}
+                    onSave={onSave}
+                    onCancel={text ? () => setIsEditing(false) : onClose}
+                />
+            ) : (
+                <>
+                    <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.25rem' }}>
+                        <button onClick={() => setIsEditing(true)} style={iconButtonStyle} title="Edit note">
+                            <Pencil size={14} />
+                        </button>
+                        {onDelete && (
+                            <button onClick={onDelete} style={{ ...iconButtonStyle, color: '#ef4444' }} title="Delete note">
+                                <Trash2 size={14} />
+                            </button>
+                        )}
+                        <button onClick={onClose} style={iconButtonStyle} title="Close">
+                            <X size={14} />
+                        </button>
+                    </div>
+                    <div style={{
+                        fontSize: '0.875rem',
+                        color: '#1f2937',
+                        lineHeight: '1.4',
+                        whiteSpace: 'pre-wrap',
+                        wordBreak: 'break-word',
+                    }}>
+                        {text}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default StickyNotePopover;
@@ -0,0 +1,233 @@
+// src/components/ThumbnailStrip.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist/build/pdf';
+import { Highlight, HighlightRect } from '@/types/highlight';
+import { getHighlightSegments } from '@/lib/highlightModel';
+import { normalizeRotation, PageRotation, rotateRect } from '@/lib/pageView';
+
+interface ThumbnailStripProps {
+    pdfDoc: PDFDocumentProxy;
+    totalPages: number;
+    currentPage: number;
+    highlights: Highlight[];
+    rotation: PageRotation;
+    pageRotations: Record<number, PageRotation>;
+    getPageSize: (pageNum: number) => { width: number; height: number };
+    onSelectPage: (pageNum: number) => void;
+}
+
+interface Thumbnail {
+    url: string;
+    rotation: PageRotation;
+}
+
+const THUMBNAIL_WIDTH = 112;
+
+// Low-resolution page images, drawn one at a time as they scroll into the strip so the
+// pages being read keep priority with the pdf.js worker
+const ThumbnailStrip = ({
+    pdfDoc,
+    totalPages,
+    currentPage,
+    highlights,
+    rotation,
+    pageRotations,
+    getPageSize,
+    onSelectPage,
+}: ThumbnailStripProps) => {
+    const [visiblePages, setVisiblePages] = useState<Set<number>>(new Set());
+    const [thumbnails, setThumbnails] = useState<Record<number, Thumbnail>>({});
+    const listRef = useRef<HTMLDivElement>(null);
+    const itemRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+    const visiblePagesRef = useRef<Set<number>>(new Set());
+    const queueRef = useRef<Promise<void>>(Promise.resolve());
+    const pendingRef = useRef<Set<string>>(new Set());
+    const generationRef = useRef(0);
+
+    const getPageRotation = (pageNum: number) => normalizeRotation(rotation + (pageRotations[pageNum] || 0));
+
+    // Queued renders from a previous document, or from before the strip was closed, are dropped
+    useEffect(() => {
+        pendingRef.current = new Set();
+        setThumbnails({});
+        return () => {
+            generationRef.current++;
+        };
+    }, [pdfDoc]);
+
+    useEffect(() => {
+        const list = listRef.current;
+        if (!list) return;
+
+        const observer = new IntersectionObserver(entries => {
+            setVisiblePages(prev => {
+                const next = new Set(prev);
+                entries.forEach(entry => {
+                    const pageNum = Number((entry.target as HTMLElement).dataset.pageNumber);
+                    if (entry.isIntersecting) next.add(pageNum);
+                    else next.delete(pageNum);
+                });
+                visiblePagesRef.current = next;
+                return next;
+            });
+        }, { root: list, rootMargin: '200px 0px' });
+
+        itemRefs.current.forEach(item => observer.observe(item));
+        return () => observer.disconnect();
+    }, [totalPages]);
+
+    const renderThumbnail = async (pageNum: number, pageRotation: PageRotation) => {
+        const page = await pdfDoc.getPage(pageNum);
+        const pdfRotation = (page.rotate + pageRotation) % 360;
+        const { width } = page.getViewport({ scale: 1, rotation: pdfRotation });
+        const viewport = page.getViewport({
+            scale: THUMBNAIL_WIDTH * (window.devicePixelRatio || 1) / width,
+            rotation: pdfRotation,
+        });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+
+        await page.render({ canvasContext: context, viewport }).promise;
+        const url = canvas.toDataURL('image/jpeg', 0.8);
+        canvas.width = 0;
+        return url;
+    };
+
+    // Queued nearest to the current page first; a page that scrolls out before its turn is skipped
+    useEffect(() => {
+        const generation = generationRef.current;
+        Array.from(visiblePages)
+            .filter(pageNum => {
+                const pageRotation = getPageRotation(pageNum);
+                return thumbnails[pageNum]?.rotation !== pageRotation &&
+                    !pendingRef.current.has(`${pageNum}@${pageRotation}`);
+            })
+            .sort((a, b) => Math.abs(a - currentPage) - Math.abs(b - currentPage))
+            .forEach(pageNum => {
+                const pageRotation = getPageRotation(pageNum);
+                const key = `${pageNum}@${pageRotation}`;
+                pendingRef.current.add(key);
+
+                queueRef.current = queueRef.current
+                    .then(async () => {
+                        if (generation !== generationRef.current || !visiblePagesRef.current.has(pageNum)) return;
+                        const url = await renderThumbnail(pageNum, pageRotation);
+                        if (!url || generation !== generationRef.current) return;
+                        setThumbnails(prev => ({ ...prev, [pageNum]: { url, rotation: pageRotation } }));
+                    })
+                    .catch(error => console.warn(`Error rendering thumbnail for page ${pageNum}:`, error))
+                    .then(() => {
+                        pendingRef.current.delete(key);
+                    });
+            });
+    }, [visiblePages, thumbnails, rotation, pageRotations]);
+
+    useEffect(() => {
+        itemRefs.current.get(currentPage)?.scrollIntoView({ block: 'nearest' });
+    }, [currentPage]);
+
+    const marksByPage = new Map<number, Array<{ id: string; color: string; rect: HighlightRect }>>();
+    highlights.forEach(highlight => {
+        getHighlightSegments(highlight).forEach(({ position: { boundingRect } }) => {
+            const marks = marksByPage.get(boundingRect.pageNumber) || [];
+            marks.push({ id: highlight.id, color: highlight.color, rect: boundingRect });
+            marksByPage.set(boundingRect.pageNumber, marks);
+        });
+    });
+
+    return (
+        <div
+            ref={listRef}
+            style={{
+                width: `${THUMBNAIL_WIDTH + 48}px`,
+                flexShrink: 0,
+                overflowY: 'auto',
+                backgroundColor: '#f9fafb',
+                borderRight: '1px solid #e5e7eb',
+                padding: '1rem 0',
+            }}
+        >
+            {Array.from({ length: totalPages }, (_, i) => i + 1).map(pageNum => {
+                const size = getPageSize(pageNum);
+                const pageRotation = getPageRotation(pageNum);
+                const thumbnail = thumbnails[pageNum];
+                const isCurrent = pageNum === currentPage;
+                const marks = marksByPage.get(pageNum) || [];
+
+                return (
+                    <div
+                        key={pageNum}
+                        ref={(el) => {
+                            if (el) itemRefs.current.set(pageNum, el);
+                            else itemRefs.current.delete(pageNum);
+                        }}
+                        data-page-number={pageNum}
+                        onClick={() => onSelectPage(pageNum)}
+                        style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            alignItems: 'center',
+                            gap: '0.25rem',
+                            marginBottom: '0.75rem',
+                            cursor: 'pointer',
+                        }}
+                        title={marks.length > 0
+                            ? `Page ${pageNum} • ${marks.length} highlight${marks.length === 1 ? '' : 's'}`
+                            : `Page ${pageNum}`}
+                    >
+                        <div style={{
+                            position: 'relative',
+                            width: `${THUMBNAIL_WIDTH}px`,
+                            height: `${Math.round(THUMBNAIL_WIDTH * size.height / size.width)}px`,
+                            backgroundColor: 'white',
+                            border: isCurrent ? '2px solid #3b82f6' : '1px solid #d1d5db',
+                            borderRadius: '2px',
+                            boxShadow: '0 1px 2px rgba(0, 0, 0, 0.1)',
+                            overflow: 'hidden',
+                        }}>
+                            {thumbnail && thumbnail.rotation === pageRotation && (
+                                <img
+                                    src={thumbnail.url}
+                                    alt={`Page ${pageNum}`}
+                                    style={{ display: 'block', width: '100%', height: '100%' }}
+                                />
+                            )}
+                            {/* One tick per highlight at its height on the page, in its color */}
+                            {marks.map(mark => {
+                                const { y1, y2 } = rotateRect(mark.rect, pageRotation);
+                                return (
+                                    <div
+                                        key={mark.id}
+                                        style={{
+                                            position: 'absolute',
+                                            right: 0,
+                                            top: `${((y1 + y2) / 2) * 100}%`,
+                                            width: '8px',
+                                            height: '3px',
+                                            marginTop: '-1px',
+                                            backgroundColor: mark.color,
+                                            borderRadius: '1px 0 0 1px',
+                                        }}
+                                    />
+                                );
+                            })}
+                        </div>
+                        <span style={{
+                            fontSize: '0.75rem',
+                            fontWeight: isCurrent ? 600 : 400,
+                            color: isCurrent ? '#3b82f6' : '#6b7280',
+                        }}>
+                            {pageNum}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default ThumbnailStrip;
@@ -0,0 +1,117 @@
+// src/lib/annotationImport.ts
+import type { AnnotationData, PDFPageProxy, TextContent } from 'pdfjs-dist/build/pdf';
+import type { Highlight, MarkupStyle } from '@/types/highlight';
+import { rgbToHex } from '@/lib/colors';
+import { createPosition, MARKUP_ANNOTATION_SUBTYPES } from '@/lib/highlightModel';
+
+export const IMPORTED_ANNOTATION_TYPES = ['Highlight', 'Underline', 'StrikeOut', 'Squiggly', 'Square', 'Text'];
+
+const getMarkupStyleForSubtype = (subtype: string) =>
+    (Object.keys(MARKUP_ANNOTATION_SUBTYPES) as MarkupStyle[]).find(style => MARKUP_ANNOTATION_SUBTYPES[style] === subtype);
+
+const DEFAULT_IMPORT_COLOR = '#fbbf24';
+
+interface PdfBox {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+const parsePdfDate = (value?: string | null): Date | null => {
+    if (!value) return null;
+    const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?/.exec(value);
+    if (!match) return null;
+
+    const [year, month = '01', day = '01', hour = '00', minute = '00', second = '00'] = match.slice(1);
+    const date = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const getAnnotationBoxes = (annotation: AnnotationData): PdfBox[] => {
+    if (annotation.quadPoints && annotation.quadPoints.length > 0) {
+        return annotation.quadPoints.map(points => ({
+            minX: Math.min(...points.map(p => p.x)),
+            minY: Math.min(...points.map(p => p.y)),
+            maxX: Math.max(...points.map(p => p.x)),
+            maxY: Math.max(...points.map(p => p.y)),
+        }));
+    }
+
+    const [x1, y1, x2, y2] = annotation.rect;
+    return [{ minX: Math.min(x1, x2), minY: Math.min(y1, y2), maxX: Math.max(x1, x2), maxY: Math.max(y1, y2) }];
+};
+
+// Approximates glyph positions by spreading each text item's width evenly over its characters
+const extractTextUnderBoxes = (textContent: TextContent, boxes: PdfBox[]) => {
+    const lines: string[] = [];
+
+    boxes.forEach(box => {
+        let line = '';
+
+        textContent.items.forEach(item => {
+            if (!item.str) return;
+
+            const x = item.transform[4];
+            const baseline = item.transform[5];
+            const height = item.height || Math.abs(item.transform[3]);
+            const centerY = baseline + height / 2;
+            if (centerY < box.minY || centerY > box.maxY) return;
+
+            const charWidth = item.width / item.str.length;
+            for (let i = 0; i < item.str.length; i++) {
+                const charCenter = x + charWidth * (i + 0.5);
+                if (charCenter >= box.minX && charCenter <= box.maxX) {
+                    line += item.str[i];
+                }
+            }
+        });
+
+        if (line.trim()) lines.push(line.trim());
+    });
+
+    return lines.join(' ').replace(/\s+/g, ' ');
+};
+
+export const importPageAnnotations = async (
+    page: PDFPageProxy,
+    pageNum: number,
+    textContent: TextContent
+): Promise<Highlight[]> => {
+    const annotations = await page.getAnnotations({ intent: 'display' });
+    const viewport = page.getViewport({ scale: 1 });
+
+    return annotations
+        .filter(annotation => IMPORTED_ANNOTATION_TYPES.includes(annotation.subtype))
+        .map(annotation => {
+            const rects = getAnnotationBoxes(annotation).map(box => {
+                const [ax, ay] = viewport.convertToViewportPoint(box.minX, box.minY);
+                const [bx, by] = viewport.convertToViewportPoint(box.maxX, box.maxY);
+                const x1 = Math.min(ax, bx) / viewport.width;
+                const y1 = Math.min(ay, by) / viewport.height;
+                const x2 = Math.max(ax, bx) / viewport.width;
+                const y2 = Math.max(ay, by) / viewport.height;
+                return { x1, y1, x2, y2, width: x2 - x1, height: y2 - y1 };
+            });
+
+            const note = annotation.contentsObj?.str.trim() || undefined;
+            const isNote = annotation.subtype === 'Text';
+            const quotedText = isNote ? '' : extractTextUnderBoxes(textContent, getAnnotationBoxes(annotation));
+            const color = annotation.color ? rgbToHex(annotation.color) : DEFAULT_IMPORT_COLOR;
+            const created = parsePdfDate(annotation.creationDate) || parsePdfDate(annotation.modificationDate);
+
+            const highlight: Highlight = {
+                id: `pdf-${annotation.id}`,
+                position: createPosition(pageNum, rects),
+                // Text annotations are sticky notes: nothing is quoted and the note is the whole annotation
+                content: { text: isNote ? '' : quotedText || note || annotation.subtype },
+                comment: note,
+                author: annotation.titleObj?.str || undefined,
+                color,
+                style: getMarkupStyleForSubtype(annotation.subtype),
+                sticky: isNote || undefined,
+                created: created || new Date(),
+            };
+            return highlight;
+        });
+};
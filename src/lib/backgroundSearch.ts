@@ -0,0 +1,42 @@
+// src/lib/backgroundSearch.ts
+import { createSearchPattern, PageTextIndex, SearchHit, SearchOptions } from '@/lib/textSearch';
+
+// A pattern that backtracks badly can run for minutes on a single page; past this the search is stopped
+export const SEARCH_TIME_LIMIT = 3000;
+
+export class SearchTimeoutError extends Error {
+    constructor() {
+        super('Search took too long');
+        this.name = 'SearchTimeoutError';
+    }
+}
+
+export interface SearchRequest {
+    pages: PageTextIndex[];
+    query: string;
+    options: SearchOptions;
+}
+
+// Regular expressions come from the user, so they run in a worker that can be terminated instead of
+// on the main thread. Invalid patterns still throw a SyntaxError straight away, like createSearchPattern
+export const searchPagesInBackground = (pages: PageTextIndex[], query: string, options: SearchOptions) => {
+    createSearchPattern(query, options);
+
+    const worker = new Worker(new URL('./searchWorker.ts', import.meta.url));
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cancel = () => {
+        clearTimeout(timer);
+        worker.terminate();
+    };
+
+    const promise = new Promise<SearchHit[]>((resolve, reject) => {
+        timer = setTimeout(() => reject(new SearchTimeoutError()), SEARCH_TIME_LIMIT);
+        worker.onmessage = (event: MessageEvent<SearchHit[]>) => resolve(event.data);
+        worker.onerror = event => reject(new Error(event.message));
+        const request: SearchRequest = { pages, query, options };
+        worker.postMessage(request);
+    });
+    promise.then(cancel, cancel);
+
+    return { promise, cancel };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CATEGORIES, Highlight, HighlightRect } from '@/types/highlight';
+import { createPosition } from '@/lib/highlightModel';
+import { briefToHtml, briefToMarkdown, buildBrief, captionFromFileName } from '@/lib/brief';
+
+const at = (y: number, x = 0.1): HighlightRect => ({ x1: x, y1: y, x2: x + 0.3, y2: y + 0.02, width: 0.3, height: 0.02 });
+
+const makeHighlight = (id: string, categoryId: string, page: number, rect: HighlightRect, extra: Partial<Highlight> = {}): Highlight => ({
+    id,
+    position: createPosition(page, [rect]),
+    content: { text: id },
+    color: DEFAULT_CATEGORIES.find(c => c.id === categoryId)!.value,
+    categoryId,
+    created: new Date(),
+    ...extra,
+});
+
+const build = (highlights: Highlight[], headings: Record<string, string> = {}) =>
+    buildBrief({ caption: 'Smith v. Jones', highlights, categories: DEFAULT_CATEGORIES, headings });
+
+describe('buildBrief', () => {
+    it('groups highlights by category in category order, skipping empty sections', () => {
+        const brief = build([
+            makeHighlight('holding', 'holding', 4, at(0.5)),
+            makeHighlight('facts', 'facts', 1, at(0.2)),
+        ]);
+
+        expect(brief.sections.map(s => s.heading)).toEqual(['Facts', 'Holding']);
+    });
+
+    it('orders entries within a section by page, then top to bottom, then left to right', () => {
+        const brief = build([
+            makeHighlight('page 2', 'facts', 2, at(0.1)),
+            makeHighlight('lower', 'facts', 1, at(0.6)),
+            makeHighlight('right', 'facts', 1, at(0.3, 0.5)),
+            makeHighlight('left', 'facts', 1, at(0.301, 0.1)),
+        ]);
+
+        expect(brief.sections[0].entries.map(e => e.text)).toEqual(['left', 'right', 'lower', 'page 2']);
+    });
+
+    it('renames, merges and leaves out sections by heading', () => {
+        const brief = build([
+            makeHighlight('rule', 'rule', 1, at(0.1)),
+            makeHighlight('reasoning', 'reasoning', 1, at(0.2)),
+            makeHighlight('dissent', 'dissent', 1, at(0.3)),
+        ], { rule: 'Analysis', reasoning: ' Analysis ', dissent: '' });
+
+        expect(brief.sections).toHaveLength(1);
+        expect(brief.sections[0].heading).toBe('Analysis');
+        expect(brief.sections[0].entries.map(e => e.text)).toEqual(['rule', 'reasoning']);
+    });
+
+    it('falls back to the color when a highlight has no category id', () => {
+        const brief = build([makeHighlight('by color', 'issue', 1, at(0.1), { categoryId: undefined })]);
+        expect(brief.sections.map(s => s.heading)).toEqual(['Issue']);
+    });
+
+    it('records the page range of highlights that cross a page break', () => {
+        const highlight = makeHighlight('spanning', 'facts', 3, at(0.9), {
+            segments: [{ position: createPosition(4, [at(0.05)]) }],
+        });
+        expect(build([highlight]).sections[0].entries[0]).toMatchObject({ page: 3, endPage: 4 });
+    });
+});
+
+describe('brief output', () => {
+    const brief = build([
+        makeHighlight('The contract\nwas void', 'holding', 2, at(0.1), { comment: 'Key line' }),
+        makeHighlight('', 'holding', 3, at(0.1), { comment: 'Compare <Restatement>', sticky: true }),
+    ]);
+
+    it('writes Markdown with pin cites', () => {
+        expect(briefToMarkdown(brief)).toBe([
+            '# Smith v. Jones',
+            '',
+            '## Holding',
+            '',
+            '> The contract was void (p. 2)',
+            '',
+            'Key line',
+            '',
+            'Compare <Restatement> (p. 3)',
+            '',
+        ].join('\n'));
+    });
+
+    it('escapes text in the HTML version', () => {
+        const html = briefToHtml(brief);
+        expect(html).toContain('Compare &lt;Restatement&gt; <span class="cite">(p. 3)</span>');
+        expect(html).not.toContain('<Restatement>');
+    });
+
+    it('takes the caption from the file name', () => {
+        expect(captionFromFileName('Smith v. Jones.PDF')).toBe('Smith v. Jones');
+    });
+});
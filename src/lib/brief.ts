@@ -0,0 +1,128 @@
+// src/lib/brief.ts
+import { Highlight, HighlightCategory } from '@/types/highlight';
+import { compareDocumentOrder, getHighlightCategory, getLastPageNumber, getPageNumber } from '@/lib/highlightModel';
+
+export interface BriefEntry {
+    page: number;
+    endPage: number;
+    text: string;
+    image?: string;
+    note?: string;
+}
+
+export interface BriefSection {
+    heading: string;
+    entries: BriefEntry[];
+}
+
+export interface Brief {
+    caption: string;
+    sections: BriefSection[];
+}
+
+export const captionFromFileName = (fileName: string) => fileName.replace(/\.pdf$/i, '');
+
+// Headings are keyed by category id; categories with a blank heading are left out, and
+// categories that share a heading are merged into one section
+export const buildBrief = (params: {
+    caption: string;
+    highlights: Highlight[];
+    categories: HighlightCategory[];
+    headings: Record<string, string>;
+}): Brief => {
+    const sectionOrder: string[] = [];
+    params.categories.forEach(category => {
+        const heading = (params.headings[category.id] ?? category.name).trim();
+        if (heading && !sectionOrder.includes(heading)) sectionOrder.push(heading);
+    });
+
+    const sections: BriefSection[] = sectionOrder.map(heading => ({ heading, entries: [] }));
+
+    [...params.highlights].sort(compareDocumentOrder).forEach(highlight => {
+        const category = getHighlightCategory(highlight, params.categories);
+        if (!category) return;
+
+        const heading = (params.headings[category.id] ?? category.name).trim();
+        const section = sections.find(s => s.heading === heading);
+        if (!section) return;
+
+        section.entries.push({
+            page: getPageNumber(highlight),
+            endPage: getLastPageNumber(highlight),
+            text: highlight.content.text,
+            image: highlight.content.image,
+            note: highlight.comment,
+        });
+    });
+
+    return {
+        caption: params.caption,
+        sections: sections.filter(s => s.entries.length > 0),
+    };
+};
+
+const pinCite = (entry: BriefEntry) =>
+    entry.endPage > entry.page ? `pp. ${entry.page}–${entry.endPage}` : `p. ${entry.page}`;
+
+export const briefToMarkdown = (brief: Brief) => {
+    const lines = [`# ${brief.caption}`, ''];
+
+    brief.sections.forEach(section => {
+        lines.push(`## ${section.heading}`, '');
+        section.entries.forEach(entry => {
+            const blocks: string[] = [];
+            if (entry.image) blocks.push(`![Figure, ${pinCite(entry)}](${entry.image})`);
+            if (entry.text) blocks.push(`> ${entry.text.replace(/\s*\n\s*/g, ' ')} (${pinCite(entry)})`);
+            // Sticky notes quote nothing, so the note itself carries the pin cite
+            if (entry.note) blocks.push(blocks.length > 0 ? entry.note : `${entry.note} (${pinCite(entry)})`);
+            lines.push(blocks.join('\n\n'), '');
+        });
+    });
+
+    return lines.join('\n').trim() + '\n';
+};
+
+const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+export const briefToHtml = (brief: Brief) => {
+    const sections = brief.sections.map(section => `
+    <section>
+      <h2>${escapeHtml(section.heading)}</h2>
+      ${section.entries.map(entry => `
+      <div class="entry">
+        ${entry.text || entry.image
+            ? `<blockquote>${entry.image ? `<img src="${escapeHtml(entry.image)}" alt="Figure">` : ''}${escapeHtml(entry.text)} <span class="cite">(${pinCite(entry)})</span></blockquote>`
+            : ''}
+        ${entry.note ? `<p class="note">${escapeHtml(entry.note).replace(/\n/g, '<br>')}${entry.text || entry.image ? '' : ` <span class="cite">(${pinCite(entry)})</span>`}</p>` : ''}
+      </div>`).join('')}
+    </section>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(brief.caption)} - Brief</title>
+  <style>
+    body { font-family: Georgia, "Times New Roman", serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.5; }
+    h1 { font-size: 1.5rem; text-align: center; margin-bottom: 2rem; }
+    h2 { font-size: 1.125rem; border-bottom: 1px solid #d1d5db; padding-bottom: 0.25rem; margin-top: 2rem; }
+    blockquote { margin: 0.75rem 0 0.25rem; padding-left: 1rem; border-left: 3px solid #9ca3af; }
+    .cite { color: #6b7280; white-space: nowrap; }
+    blockquote img { display: block; max-width: 100%; margin-bottom: 0.25rem; border: 1px solid #e5e7eb; }
+    .note { margin: 0 0 0.75rem 1rem; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; font-size: 0.875rem; color: #374151; }
+    .print-button { position: fixed; top: 1rem; right: 1rem; padding: 0.5rem 1rem; }
+    @media print { .print-button { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <button class="print-button" onclick="window.print()">Print</button>
+  <h1>${escapeHtml(brief.caption)}</h1>${sections}
+</body>
+</html>
+`;
+};
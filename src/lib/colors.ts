@@ -0,0 +1,21 @@
+// src/lib/colors.ts
+
+export const generateBackgroundColor = (mainColor: string) => {
+    const hex = mainColor.replace('#', '');
+    const r = parseInt(hex.substring(0, 2), 16);
+    const g = parseInt(hex.substring(2, 4), 16);
+    const b = parseInt(hex.substring(4, 6), 16);
+
+    const lighten = (color: number) => Math.min(255, Math.floor(color + (255 - color) * 0.7));
+
+    const lightR = lighten(r);
+    const lightG = lighten(g);
+    const lightB = lighten(b);
+
+    return `rgb(${lightR}, ${lightG}, ${lightB})`;
+};
+
+export const rgbToHex = (rgb: ArrayLike<number>) =>
+    '#' + Array.from(rgb).slice(0, 3)
+        .map(channel => ('0' + Math.round(channel).toString(16)).slice(-2))
+        .join('');
@@ -0,0 +1,157 @@
+// src/lib/documentStore.ts
+import type { Highlight, HighlightCategory, InkStroke } from '@/types/highlight';
+import { migrateCategories, migrateHighlights } from '@/lib/highlightModel';
+import { HighlightHistory, restoreHistory } from '@/lib/history';
+import { migrateInkStrokes } from '@/lib/ink';
+import type { PageRotation, ZoomMode } from '@/lib/pageView';
+
+const DB_NAME = 'lawbandit-pdf-highlighter';
+const DB_VERSION = 2;
+const DOCUMENT_STORE = 'documents';
+const FILE_STORE = 'files';
+// Only the most recently opened PDFs keep their bytes, so storage stays bounded
+const MAX_STORED_FILES = 10;
+
+export interface StoredDocument {
+    id: string;
+    fileName: string;
+    highlights: Highlight[];
+    categories: HighlightCategory[];
+    inkStrokes?: InkStroke[];
+    lastPage: number;
+    scale: number;
+    zoomMode?: ZoomMode;
+    rotation?: PageRotation;
+    pageRotations?: Record<number, PageRotation>;
+    importedPages?: number[];
+    history?: HighlightHistory;
+    updatedAt: number;
+}
+
+interface StoredFile {
+    id: string;
+    fileName: string;
+    data: Blob;
+    openedAt: number;
+}
+
+export interface RecentDocument {
+    id: string;
+    fileName: string;
+    size: number;
+    openedAt: number;
+    highlightCount: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(DOCUMENT_STORE)) {
+                db.createObjectStore(DOCUMENT_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(FILE_STORE)) {
+                db.createObjectStore(FILE_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+
+    return dbPromise;
+};
+
+const runRequest = <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+    openDatabase().then(db => new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    }));
+
+export const hashDocument = async (data: ArrayBuffer): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+        .map(byte => ('0' + byte.toString(16)).slice(-2))
+        .join('');
+};
+
+export const loadDocument = async (id: string): Promise<StoredDocument | null> => {
+    const stored = await runRequest(DOCUMENT_STORE, 'readonly', store => store.get(id));
+    if (!stored) return null;
+
+    // Older saves may hold the viewer's legacy highlight shape and custom colors instead of categories
+    const { customColors, ...rest } = stored;
+    return {
+        ...rest,
+        highlights: migrateHighlights(stored.highlights),
+        categories: migrateCategories(stored.categories, customColors),
+        inkStrokes: migrateInkStrokes(stored.inkStrokes),
+        history: restoreHistory(stored.history),
+    };
+};
+
+export const saveDocument = async (doc: StoredDocument): Promise<void> => {
+    await runRequest(DOCUMENT_STORE, 'readwrite', store => store.put(doc));
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+    await runRequest(DOCUMENT_STORE, 'readwrite', store => store.delete(id));
+    await runRequest(FILE_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Keeps the PDF itself so it can be reopened from the recent list without the original file
+export const saveDocumentFile = async (id: string, file: File): Promise<void> => {
+    const record: StoredFile = { id, fileName: file.name, data: file, openedAt: Date.now() };
+    await runRequest(FILE_STORE, 'readwrite', store => store.put(record));
+
+    const files: StoredFile[] = await runRequest(FILE_STORE, 'readonly', store => store.getAll());
+    const expired = files.sort((a, b) => b.openedAt - a.openedAt).slice(MAX_STORED_FILES);
+    for (const stale of expired) {
+        await runRequest(FILE_STORE, 'readwrite', store => store.delete(stale.id));
+    }
+};
+
+export const loadDocumentFile = async (id: string): Promise<File | null> => {
+    const stored: StoredFile | undefined = await runRequest(FILE_STORE, 'readonly', store => store.get(id));
+    if (!stored) return null;
+    return new File([stored.data], stored.fileName, { type: 'application/pdf' });
+};
+
+export const listRecentDocuments = async (): Promise<RecentDocument[]> => {
+    const files: StoredFile[] = await runRequest(FILE_STORE, 'readonly', store => store.getAll());
+    const documents: StoredDocument[] = await runRequest(DOCUMENT_STORE, 'readonly', store => store.getAll());
+
+    return files
+        .map(file => {
+            const doc = documents.find(d => d.id === file.id);
+            return {
+                id: file.id,
+                fileName: file.fileName,
+                size: file.data.size,
+                openedAt: Math.max(file.openedAt, doc ? doc.updatedAt : 0),
+                highlightCount: doc && Array.isArray(doc.highlights) ? doc.highlights.length : 0,
+            };
+        })
+        .sort((a, b) => b.openedAt - a.openedAt);
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { migrateHighlight } from '@/lib/highlightModel';
+
+const rect = { x1: 0.1, y1: 0.2, x2: 0.5, y2: 0.25, width: 0.4, height: 0.05 };
+
+const stored = {
+    id: 'h1',
+    position: { boundingRect: { ...rect, pageNumber: 2 }, rects: [rect] },
+    anchor: {
+        pageNumber: 2,
+        start: { itemIndex: 3, offset: 0 },
+        end: { itemIndex: 3, offset: 14 },
+        quote: 'The court held',
+        prefix: '',
+        suffix: ' that',
+    },
+    content: { text: 'The court held' },
+    color: '#fbbf24',
+    categoryId: 'holding',
+    style: 'underline',
+    created: '2024-03-01T12:00:00.000Z',
+};
+
+describe('migrateHighlight', () => {
+    it('keeps a valid record and revives its date', () => {
+        expect(migrateHighlight(stored)).toEqual({
+            ...stored,
+            segments: undefined,
+            content: { text: 'The court held', image: undefined },
+            comment: undefined,
+            author: undefined,
+            sticky: undefined,
+            created: new Date('2024-03-01T12:00:00.000Z'),
+        });
+    });
+
+    it.each([
+        ['an anchor without a quote', { anchor: { ...stored.anchor, quote: undefined } }],
+        ['an anchor without an end', { anchor: { ...stored.anchor, end: undefined } }],
+        ['an anchor with a non-numeric start', { anchor: { ...stored.anchor, start: { itemIndex: '3', offset: 0 } } }],
+    ])('drops %s and keeps the highlight', (_, overrides) => {
+        const highlight = migrateHighlight({ ...stored, ...overrides });
+        expect(highlight).not.toBeNull();
+        expect(highlight!.anchor).toBeUndefined();
+    });
+
+    it('drops malformed anchors on continuation segments', () => {
+        const segment = { position: { boundingRect: { ...rect, pageNumber: 3 }, rects: [rect] }, anchor: { quote: 'x' } };
+        expect(migrateHighlight({ ...stored, segments: [segment] })!.segments).toEqual([
+            { position: segment.position, anchor: undefined },
+        ]);
+    });
+
+    it('drops an unknown style, a non-string category and an image that is not an inline image', () => {
+        const highlight = migrateHighlight({
+            ...stored,
+            style: 'blink',
+            categoryId: 7,
+            content: { text: '', image: 'https://example.com/tracker.png' },
+        });
+
+        expect(highlight!.style).toBeUndefined();
+        expect(highlight!.categoryId).toBeUndefined();
+        expect(highlight!.content.image).toBeUndefined();
+    });
+
+    it('keeps an inline snapshot image', () => {
+        const image = 'data:image/png;base64,iVBORw0KGgo=';
+        expect(migrateHighlight({ ...stored, content: { text: '', image } })!.content.image).toBe(image);
+    });
+
+    it.each([
+        ['a non-hex color', { color: 'red' }],
+        ['missing text', { content: {} }],
+        ['a rect without coordinates', { position: { boundingRect: { ...rect, pageNumber: 2 }, rects: [{}] } }],
+        ['segments that are not a list', { segments: 'none' }],
+    ])('rejects a record with %s', (_, overrides) => {
+        expect(migrateHighlight({ ...stored, ...overrides })).toBeNull();
+    });
+
+    it('still migrates legacy records', () => {
+        const legacy = migrateHighlight({
+            id: '1700000000000',
+            text: 'Old highlight',
+            color: '#3b82f6',
+            pageNumber: 1,
+            position: { x: 0.1, y: 0.2, width: 0.3, height: 0.05 },
+        });
+
+        expect(legacy!.content.text).toBe('Old highlight');
+        expect(legacy!.position.boundingRect.pageNumber).toBe(1);
+        expect(legacy!.created).toEqual(new Date(1700000000000));
+    });
+});
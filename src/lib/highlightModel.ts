@@ -0,0 +1,313 @@
+// src/lib/highlightModel.ts
+import {
+    Highlight,
+    HighlightCategory,
+    HighlightColor,
+    HighlightPosition,
+    HighlightRect,
+    HighlightSegment,
+    MarkupStyle,
+    DEFAULT_CATEGORIES,
+    MARKUP_STYLES,
+    TextAnchor,
+    TextPosition,
+} from '@/types/highlight';
+import { generateBackgroundColor } from '@/lib/colors';
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Shape the viewer kept in component state before the model was unified
+export interface LegacyHighlight {
+    id: string;
+    text: string;
+    color: string;
+    background?: string;
+    pageNumber: number;
+    position?: Box;
+    rects?: Box[];
+    comment?: string;
+    author?: string;
+    created?: string;
+}
+
+export const toHighlightRect = (box: Box): HighlightRect => ({
+    x1: box.x,
+    y1: box.y,
+    x2: box.x + box.width,
+    y2: box.y + box.height,
+    width: box.width,
+    height: box.height,
+});
+
+export const createPosition = (pageNumber: number, rects: HighlightRect[]): HighlightPosition => {
+    const x1 = Math.min(...rects.map(r => r.x1));
+    const y1 = Math.min(...rects.map(r => r.y1));
+    const x2 = Math.max(...rects.map(r => r.x2));
+    const y2 = Math.max(...rects.map(r => r.y2));
+
+    return {
+        boundingRect: { x1, y1, x2, y2, width: x2 - x1, height: y2 - y1, pageNumber },
+        rects,
+    };
+};
+
+export const getPageNumber = (highlight: Highlight) => highlight.position.boundingRect.pageNumber;
+
+// The first page's part lives on the highlight itself; continuations follow in page order
+export const getHighlightSegments = (highlight: Highlight): HighlightSegment[] => [
+    { position: highlight.position, anchor: highlight.anchor },
+    ...(highlight.segments || []),
+];
+
+export const getSegmentOnPage = (highlight: Highlight, pageNumber: number) =>
+    getHighlightSegments(highlight).find(s => s.position.boundingRect.pageNumber === pageNumber);
+
+// Index 0 is the highlight's own position and anchor; later indexes are its continuations
+export const replaceSegment = (highlight: Highlight, index: number, segment: HighlightSegment): Highlight => {
+    if (index === 0) return { ...highlight, position: segment.position, anchor: segment.anchor };
+    const segments = [...(highlight.segments || [])];
+    segments[index - 1] = segment;
+    return { ...highlight, segments };
+};
+
+export const rectsIntersect = (a: HighlightRect, b: HighlightRect) =>
+    a.x1 < b.x2 && b.x1 < a.x2 && a.y1 < b.y2 && b.y1 < a.y2;
+
+export const getLastPageNumber = (highlight: Highlight) => {
+    const segments = getHighlightSegments(highlight);
+    return segments[segments.length - 1].position.boundingRect.pageNumber;
+};
+
+// Area highlights cover a dragged rectangle and keep a snapshot of it instead of selected text
+export const isAreaHighlight = (highlight: Highlight) => !!highlight.content.image;
+
+export const isStickyNote = (highlight: Highlight) => !!highlight.sticky;
+
+// Page, then top-to-bottom, then left-to-right; lines within half a percent count as level
+export const compareDocumentOrder = (a: Highlight, b: Highlight) => {
+    const pageDiff = getPageNumber(a) - getPageNumber(b);
+    if (pageDiff !== 0) return pageDiff;
+
+    const topDiff = a.position.boundingRect.y1 - b.position.boundingRect.y1;
+    if (Math.abs(topDiff) > 0.005) return topDiff;
+
+    return a.position.boundingRect.x1 - b.position.boundingRect.x1;
+};
+
+export const getMarkupStyle = (highlight: Highlight): MarkupStyle => highlight.style || 'highlight';
+
+// Native PDF annotation subtype for each markup style, used for export and import
+export const MARKUP_ANNOTATION_SUBTYPES: Record<MarkupStyle, string> = {
+    highlight: 'Highlight',
+    underline: 'Underline',
+    strikeout: 'StrikeOut',
+    squiggly: 'Squiggly',
+    box: 'Square',
+};
+
+export const isMarkupStyle = (value: unknown): value is MarkupStyle =>
+    MARKUP_STYLES.some(style => style.value === value);
+
+export const getHighlightBackground = (color: string, colors: HighlightColor[]) =>
+    colors.find(c => c.value === color)?.background || generateBackgroundColor(color);
+
+export const getHighlightCategory = (highlight: Highlight, categories: HighlightCategory[]) =>
+    categories.find(c => c.id === highlight.categoryId) ||
+    categories.find(c => c.value === highlight.color);
+
+export const isCustomCategory = (category: HighlightCategory) =>
+    !DEFAULT_CATEGORIES.some(c => c.id === category.id);
+
+export const createCustomCategory = (color: string, index: number): HighlightCategory => ({
+    id: `custom-${Date.now().toString(36)}-${index}`,
+    name: `Custom ${index}`,
+    description: '',
+    value: color,
+    background: generateBackgroundColor(color),
+});
+
+// Shared with the sidecar parser: stored and imported data are both checked field by field from here
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && isFinite(value);
+
+// Colors end up in inline styles and PDF annotation colors, so only plain hex is accepted
+export const isHexColor = (value: unknown): value is string =>
+    typeof value === 'string' && /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+// Area snapshots are shown as <img> sources, so nothing but an inline image is kept
+export const isImageDataUrl = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith('data:image/');
+
+const migrateTextPosition = (value: unknown): TextPosition | null =>
+    isObject(value) && isNumber(value.itemIndex) && isNumber(value.offset)
+        ? { itemIndex: value.itemIndex, offset: value.offset }
+        : null;
+
+// Anchors are optional: a malformed one is dropped and the stored rectangles are used instead
+export const migrateAnchor = (value: unknown, pageNumber: number): TextAnchor | undefined => {
+    if (!isObject(value) || typeof value.quote !== 'string') return undefined;
+
+    const start = migrateTextPosition(value.start);
+    const end = migrateTextPosition(value.end);
+    if (!start || !end) return undefined;
+
+    return {
+        pageNumber,
+        start,
+        end,
+        quote: value.quote,
+        prefix: typeof value.prefix === 'string' ? value.prefix : '',
+        suffix: typeof value.suffix === 'string' ? value.suffix : '',
+    };
+};
+
+const isBox = (value: unknown): value is Box =>
+    isObject(value) && ['x', 'y', 'width', 'height'].every(key => typeof value[key] === 'number');
+
+const isRect = (value: unknown): value is HighlightRect =>
+    isObject(value) && ['x1', 'y1', 'x2', 'y2'].every(key => typeof value[key] === 'number');
+
+const isPosition = (value: unknown): value is HighlightPosition =>
+    isObject(value) &&
+    isObject(value.boundingRect) &&
+    typeof value.boundingRect.pageNumber === 'number' &&
+    isRect(value.boundingRect) &&
+    Array.isArray(value.rects) &&
+    value.rects.every(isRect);
+
+const isSegment = (value: unknown): value is HighlightSegment =>
+    isObject(value) && isPosition(value.position);
+
+// Legacy ids start with the Date.now() they were created at; their `created` was only a time of day
+const createdFromId = (id: string) => {
+    const match = /^\d{13}/.exec(id);
+    return match ? new Date(Number(match[0])) : new Date();
+};
+
+const toDate = (value: unknown, id: string) => {
+    if (value instanceof Date && !isNaN(value.getTime())) return value;
+    if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) return date;
+    }
+    return createdFromId(id);
+};
+
+const migrateLegacyHighlight = (legacy: LegacyHighlight): Highlight | null => {
+    const boxes = legacy.rects && legacy.rects.length > 0
+        ? legacy.rects.filter(isBox)
+        : isBox(legacy.position) ? [legacy.position] : [];
+    if (boxes.length === 0) return null;
+
+    return {
+        id: legacy.id,
+        position: createPosition(legacy.pageNumber, boxes.map(toHighlightRect)),
+        content: { text: legacy.text },
+        comment: legacy.comment,
+        author: legacy.author,
+        color: legacy.color,
+        created: createdFromId(legacy.id),
+    };
+};
+
+const migrateSegment = (segment: HighlightSegment): HighlightSegment => ({
+    position: segment.position,
+    anchor: migrateAnchor(segment.anchor, segment.position.boundingRect.pageNumber),
+});
+
+export const migrateHighlight = (value: unknown): Highlight | null => {
+    if (!isObject(value) || typeof value.id !== 'string' || !isHexColor(value.color)) return null;
+
+    const { content, position, segments } = value;
+    if (isObject(content) && isObject(position)) {
+        // Rendering, export and briefs take rects, page numbers and text as given, so a corrupt record is dropped
+        // here; optional fields that are malformed are dropped the way the sidecar parser drops them
+        if (typeof content.text !== 'string' || !isPosition(position)) return null;
+        if (segments !== undefined && !(Array.isArray(segments) && segments.every(isSegment))) return null;
+
+        return {
+            id: value.id,
+            position,
+            anchor: migrateAnchor(value.anchor, position.boundingRect.pageNumber),
+            segments: segments && segments.length > 0 ? segments.map(migrateSegment) : undefined,
+            content: {
+                text: content.text,
+                image: isImageDataUrl(content.image) ? content.image : undefined,
+            },
+            comment: typeof value.comment === 'string' ? value.comment : undefined,
+            author: typeof value.author === 'string' ? value.author : undefined,
+            color: value.color,
+            categoryId: typeof value.categoryId === 'string' ? value.categoryId : undefined,
+            style: isMarkupStyle(value.style) ? value.style : undefined,
+            sticky: value.sticky === true || undefined,
+            created: toDate(value.created, value.id),
+        };
+    }
+
+    if (typeof value.text === 'string' && typeof value.pageNumber === 'number') {
+        return migrateLegacyHighlight(value as unknown as LegacyHighlight);
+    }
+
+    return null;
+};
+
+export const migrateHighlights = (values: unknown): Highlight[] =>
+    Array.isArray(values)
+        ? values.map(migrateHighlight).filter((h): h is Highlight => h !== null)
+        : [];
+
+export const migrateColor = (value: unknown): HighlightColor | null => {
+    if (!isObject(value) || typeof value.name !== 'string' || typeof value.value !== 'string') return null;
+
+    const background = typeof value.background === 'string' ? value.background
+        : typeof value.bg === 'string' ? value.bg
+        : generateBackgroundColor(value.value);
+
+    return { name: value.name, value: value.value, background };
+};
+
+export const migrateColors = (values: unknown): HighlightColor[] =>
+    Array.isArray(values)
+        ? values.map(migrateColor).filter((c): c is HighlightColor => c !== null)
+        : [];
+
+export const migrateCategory = (value: unknown): HighlightCategory | null => {
+    const color = migrateColor(value);
+    if (!color || !isObject(value) || typeof value.id !== 'string') return null;
+
+    return {
+        ...color,
+        id: value.id,
+        description: typeof value.description === 'string' ? value.description : '',
+    };
+};
+
+// Documents saved before categories existed only kept their custom colors next to the fixed palette
+export const categoriesFromCustomColors = (customColors: HighlightColor[]): HighlightCategory[] => [
+    ...DEFAULT_CATEGORIES,
+    ...customColors
+        .filter(color => !DEFAULT_CATEGORIES.some(c => c.value === color.value))
+        .map((color, index) => ({
+            ...color,
+            id: `custom-legacy-${index + 1}`,
+            description: '',
+        })),
+];
+
+export const migrateCategories = (categories: unknown, customColors?: unknown): HighlightCategory[] => {
+    if (Array.isArray(categories)) {
+        const migrated = categories
+            .map(migrateCategory)
+            .filter((c): c is HighlightCategory => c !== null);
+        if (migrated.length > 0) return migrated;
+    }
+    return categoriesFromCustomColors(migrateColors(customColors));
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Highlight } from '@/types/highlight';
+import { applyChange, createHistoryEntry, redoEntry, undoEntry } from '@/lib/history';
+
+const rect = { x1: 0.1, y1: 0.1, x2: 0.2, y2: 0.2, width: 0.1, height: 0.1 };
+
+const makeHighlight = (id: string, day: number, comment?: string): Highlight => ({
+    id,
+    position: { boundingRect: { ...rect, pageNumber: 1 }, rects: [rect] },
+    content: { text: id },
+    color: '#fbbf24',
+    comment,
+    created: new Date(2024, 0, day),
+});
+
+const ids = (highlights: Highlight[]) => highlights.map(h => h.id);
+
+describe('applyChange', () => {
+    const a = makeHighlight('a', 1);
+    const b = makeHighlight('b', 2);
+    const c = makeHighlight('c', 3);
+
+    it('replaces updated highlights in place', () => {
+        const edited = { ...b, comment: 'edited' };
+        const result = applyChange([a, b, c], [b], [edited]);
+
+        expect(ids(result)).toEqual(['a', 'b', 'c']);
+        expect(result[1]).toBe(edited);
+    });
+
+    it('removes highlights that have no after state', () => {
+        expect(ids(applyChange([a, b, c], [b], []))).toEqual(['a', 'c']);
+    });
+
+    it('slots restored highlights back in by creation time', () => {
+        expect(ids(applyChange([a, c], [], [b]))).toEqual(['a', 'b', 'c']);
+        expect(ids(applyChange([b], [], [a, c]))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('leaves untouched highlights alone', () => {
+        const highlights = [a, b];
+        expect(applyChange(highlights, [], [])).toEqual(highlights);
+    });
+});
+
+describe('undoEntry and redoEntry', () => {
+    const a = makeHighlight('a', 1);
+    const b = makeHighlight('b', 2);
+    const c = makeHighlight('c', 3);
+
+    it('undo and redo a deletion', () => {
+        const entry = createHistoryEntry('Delete highlight', [b], []);
+        const after = [a, c];
+
+        const undone = undoEntry(after, entry);
+        expect(undone).toEqual([a, b, c]);
+        expect(redoEntry(undone, entry)).toEqual(after);
+    });
+
+    it('undo and redo a creation', () => {
+        const entry = createHistoryEntry('Add highlight', [], [c]);
+        const after = [a, b, c];
+
+        const undone = undoEntry(after, entry);
+        expect(undone).toEqual([a, b]);
+        expect(redoEntry(undone, entry)).toEqual(after);
+    });
+
+    it('undo and redo an edit that touched several highlights', () => {
+        const before = [a, b, c];
+        const after = [{ ...a, comment: 'first' }, b, { ...c, color: '#3b82f6' }];
+        const entry = createHistoryEntry('Edit highlights', [a, c], [after[0], after[2]]);
+
+        const undone = undoEntry(after, entry);
+        expect(undone).toEqual(before);
+        expect(redoEntry(undone, entry)).toEqual(after);
+    });
+});
@@ -0,0 +1,104 @@
+// src/lib/history.ts
+import type { Highlight, HighlightCategory, InkStroke } from '@/types/highlight';
+
+export const MAX_HISTORY = 50;
+
+// A change records only the highlights it touched: their state before (absent when created)
+// and after (absent when deleted). Category lists are small, so they are kept whole.
+// Ink strokes are recorded the same way as highlights.
+export interface HistoryEntry {
+    id: string;
+    label: string;
+    before: Highlight[];
+    after: Highlight[];
+    categories?: {
+        before: HighlightCategory[];
+        after: HighlightCategory[];
+    };
+    ink?: {
+        before: InkStroke[];
+        after: InkStroke[];
+    };
+}
+
+export interface HighlightHistory {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HighlightHistory = { past: [], future: [] };
+
+export const createHistoryEntry = (
+    label: string,
+    before: Highlight[],
+    after: Highlight[],
+    categories?: HistoryEntry['categories'],
+    ink?: HistoryEntry['ink']
+): HistoryEntry => ({
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2),
+    label,
+    before,
+    after,
+    categories,
+    ink,
+});
+
+// Recording a new change discards anything that could have been redone
+export const pushHistory = (history: HighlightHistory, entry: HistoryEntry): HighlightHistory => ({
+    past: [...history.past, entry].slice(-MAX_HISTORY),
+    future: [],
+});
+
+// Replaces the `from` versions with the `to` versions. Updated highlights keep their place;
+// restored ones are slotted back in by creation time so the sidebar order is preserved.
+export const applyChange = <T extends { id: string; created: Date }>(highlights: T[], from: T[], to: T[]): T[] => {
+    const fromIds = new Set(from.map(h => h.id));
+    const pending = new Map(to.map(h => [h.id, h] as [string, T]));
+
+    const result: T[] = [];
+    highlights.forEach(highlight => {
+        const replacement = pending.get(highlight.id);
+        if (replacement) {
+            result.push(replacement);
+            pending.delete(highlight.id);
+        } else if (!fromIds.has(highlight.id)) {
+            result.push(highlight);
+        }
+    });
+
+    pending.forEach(highlight => {
+        const index = result.findIndex(h => h.created.getTime() > highlight.created.getTime());
+        if (index === -1) result.push(highlight);
+        else result.splice(index, 0, highlight);
+    });
+
+    return result;
+};
+
+export const undoEntry = (highlights: Highlight[], entry: HistoryEntry) =>
+    applyChange(highlights, entry.after, entry.before);
+
+export const redoEntry = (highlights: Highlight[], entry: HistoryEntry) =>
+    applyChange(highlights, entry.before, entry.after);
+
+export const undoInk = (strokes: InkStroke[], entry: HistoryEntry) =>
+    entry.ink ? applyChange(strokes, entry.ink.after, entry.ink.before) : strokes;
+
+export const redoInk = (strokes: InkStroke[], entry: HistoryEntry) =>
+    entry.ink ? applyChange(strokes, entry.ink.before, entry.ink.after) : strokes;
+
+const isHistoryList = (value: unknown): value is HistoryEntry[] =>
+    Array.isArray(value) && value.every(entry =>
+        typeof entry === 'object' && entry !== null &&
+        typeof entry.id === 'string' && typeof entry.label === 'string' &&
+        Array.isArray(entry.before) && Array.isArray(entry.after));
+
+export const restoreHistory = (value: unknown): HighlightHistory => {
+    if (typeof value !== 'object' || value === null) return EMPTY_HISTORY;
+
+    const { past, future } = value as Record<string, unknown>;
+    return {
+        past: isHistoryList(past) ? past.slice(-MAX_HISTORY) : [],
+        future: isHistoryList(future) ? future.slice(0, MAX_HISTORY) : [],
+    };
+};
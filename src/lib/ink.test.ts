@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { InkStroke } from '@/types/highlight';
+import { getInkPath, isStrokeHit, migrateInkStrokes, simplifyPoints } from '@/lib/ink';
+
+const stroke = (points: Array<[number, number]>): InkStroke => ({
+    id: 's1',
+    pageNumber: 1,
+    points: points.map(([x, y]) => ({ x, y })),
+    color: '#ef4444',
+    width: 2,
+    created: new Date(),
+});
+
+describe('simplifyPoints', () => {
+    it('drops points closer than the tolerance to the last kept one', () => {
+        const points = [{ x: 0, y: 0 }, { x: 0.001, y: 0 }, { x: 0.002, y: 0 }, { x: 0.01, y: 0 }, { x: 0.011, y: 0 }];
+        expect(simplifyPoints(points, 0.005)).toEqual([{ x: 0, y: 0 }, { x: 0.01, y: 0 }, { x: 0.011, y: 0 }]);
+    });
+
+    it('always keeps the first and last points', () => {
+        const points = [{ x: 0.5, y: 0.5 }, { x: 0.5001, y: 0.5 }, { x: 0.5002, y: 0.5 }];
+        expect(simplifyPoints(points, 0.01)).toEqual([points[0], points[2]]);
+    });
+
+    it('leaves strokes of one or two points alone', () => {
+        const points = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+        expect(simplifyPoints(points, 1)).toBe(points);
+    });
+});
+
+describe('getInkPath', () => {
+    it('draws a line through the points', () => {
+        expect(getInkPath(stroke([[0.1, 0.2], [0.3, 0.4]]).points)).toBe('M 0.1 0.2 L 0.3 0.4');
+    });
+
+    it('draws a single tap as a zero-length line so the round cap shows a dot', () => {
+        expect(getInkPath(stroke([[0.1, 0.2]]).points)).toBe('M 0.1 0.2 L 0.1 0.2');
+        expect(getInkPath([])).toBe('');
+    });
+});
+
+describe('isStrokeHit', () => {
+    // A horizontal line across the middle of a 600 x 800 page
+    const line = stroke([[0.1, 0.5], [0.9, 0.5]]);
+
+    it('hits points within the tolerance of a segment, in pixels', () => {
+        expect(isStrokeHit(line, { x: 0.5, y: 0.5 + 4 / 800 }, 600, 800, 5)).toBe(true);
+        expect(isStrokeHit(line, { x: 0.5, y: 0.5 + 6 / 800 }, 600, 800, 5)).toBe(false);
+    });
+
+    it('measures past the ends from the end points', () => {
+        expect(isStrokeHit(line, { x: 0.9 + 3 / 600, y: 0.5 }, 600, 800, 5)).toBe(true);
+        expect(isStrokeHit(line, { x: 0.9 + 6 / 600, y: 0.5 }, 600, 800, 5)).toBe(false);
+    });
+
+    it('hits a dot within the tolerance of its only point', () => {
+        const dot = stroke([[0.5, 0.5]]);
+        expect(isStrokeHit(dot, { x: 0.5 + 3 / 600, y: 0.5 + 3 / 800 }, 600, 800, 5)).toBe(true);
+        expect(isStrokeHit(dot, { x: 0.5 + 4 / 600, y: 0.5 + 4 / 800 }, 600, 800, 5)).toBe(false);
+    });
+});
+
+describe('migrateInkStrokes', () => {
+    it('keeps valid strokes and revives their dates', () => {
+        const [migrated] = migrateInkStrokes([{ ...stroke([[0.1, 0.2]]), created: '2024-03-01T12:00:00.000Z' }]);
+        expect(migrated.points).toEqual([{ x: 0.1, y: 0.2 }]);
+        expect(migrated.created).toEqual(new Date('2024-03-01T12:00:00.000Z'));
+    });
+
+    it('drops strokes with missing or malformed fields', () => {
+        const valid = stroke([[0.1, 0.2]]);
+        expect(migrateInkStrokes([
+            { ...valid, points: [{ x: '0.1', y: 0.2 }] },
+            { ...valid, width: undefined },
+            { ...valid, pageNumber: '1' },
+            null,
+        ])).toEqual([]);
+        expect(migrateInkStrokes('not a list')).toEqual([]);
+    });
+});
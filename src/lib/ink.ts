@@ -0,0 +1,89 @@
+// src/lib/ink.ts
+import type { InkPoint, InkStroke } from '@/types/highlight';
+import { isObject } from '@/lib/highlightModel';
+
+export const INK_WIDTHS = [
+    { name: 'Fine', value: 1 },
+    { name: 'Medium', value: 2.5 },
+    { name: 'Thick', value: 5 },
+];
+
+export const createInkStroke = (pageNumber: number, points: InkPoint[], color: string, width: number): InkStroke => ({
+    id: Date.now().toString() + Math.random().toString(36),
+    pageNumber,
+    points,
+    color,
+    width,
+    created: new Date(),
+});
+
+// Drops points that are closer than `tolerance` (a page fraction) to the last kept one
+export const simplifyPoints = (points: InkPoint[], tolerance: number) => {
+    if (points.length < 3) return points;
+
+    const kept = [points[0]];
+    for (let i = 1; i < points.length - 1; i++) {
+        const last = kept[kept.length - 1];
+        if (Math.hypot(points[i].x - last.x, points[i].y - last.y) >= tolerance) kept.push(points[i]);
+    }
+    kept.push(points[points.length - 1]);
+    return kept;
+};
+
+// Path data in page fractions, for an SVG whose viewBox is the unit square
+export const getInkPath = (points: InkPoint[]) => {
+    if (points.length === 0) return '';
+    const [first, ...rest] = points;
+    // A single tap still draws a dot thanks to the round line caps
+    const tail = rest.length > 0 ? rest : [first];
+    return `M ${first.x} ${first.y} ` + tail.map(p => `L ${p.x} ${p.y}`).join(' ');
+};
+
+const distanceToSegment = (p: InkPoint, a: InkPoint, b: InkPoint) => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Hit testing happens in pixels so the tolerance is the same in both directions on a non-square page
+export const isStrokeHit = (stroke: InkStroke, point: InkPoint, pageWidth: number, pageHeight: number, tolerance: number) => {
+    const toPixels = (p: InkPoint) => ({ x: p.x * pageWidth, y: p.y * pageHeight });
+    const target = toPixels(point);
+    const points = stroke.points.map(toPixels);
+
+    if (points.length === 1) return Math.hypot(target.x - points[0].x, target.y - points[0].y) <= tolerance;
+    for (let i = 1; i < points.length; i++) {
+        if (distanceToSegment(target, points[i - 1], points[i]) <= tolerance) return true;
+    }
+    return false;
+};
+
+const isPoint = (value: unknown): value is InkPoint =>
+    isObject(value) && typeof value.x === 'number' && typeof value.y === 'number';
+
+const migrateInkStroke = (value: unknown): InkStroke | null => {
+    if (!isObject(value) || typeof value.id !== 'string' || typeof value.pageNumber !== 'number' ||
+        typeof value.color !== 'string' || typeof value.width !== 'number' ||
+        !Array.isArray(value.points) || !value.points.every(isPoint)) {
+        return null;
+    }
+
+    const created = typeof value.created === 'string' || typeof value.created === 'number' || value.created instanceof Date
+        ? new Date(value.created)
+        : new Date();
+    return {
+        id: value.id,
+        pageNumber: value.pageNumber,
+        points: value.points.map(p => ({ x: p.x, y: p.y })),
+        color: value.color,
+        width: value.width,
+        created,
+    };
+};
+
+export const migrateInkStrokes = (values: unknown): InkStroke[] =>
+    Array.isArray(values)
+        ? values.map(migrateInkStroke).filter((s): s is InkStroke => s !== null)
+        : [];
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { ExplicitDestination, PDFDocumentProxy, PDFPageProxy, PDFPageViewport } from 'pdfjs-dist/build/pdf';
+import { getPageLinks, resolveDestination } from '@/lib/outline';
+import { rotatePartialPoint } from '@/lib/pageView';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+// pdf.js viewports at scale 1: y flips so it grows down the page, and a page whose own /Rotate is 90
+// shows its left edge along the top
+const VIEWPORTS = {
+    0: { width: PAGE_WIDTH, height: PAGE_HEIGHT, convertToViewportPoint: (x: number, y: number) => [x, PAGE_HEIGHT - y] },
+    90: { width: PAGE_HEIGHT, height: PAGE_WIDTH, convertToViewportPoint: (x: number, y: number) => [y, x] },
+};
+
+const pageRef = { num: 12, gen: 0 };
+
+// Page 2 is the one /Rotate-d by 90
+const pdf = {
+    numPages: 3,
+    getDestination: async (name: string) => name === 'holding' ? [pageRef, { name: 'XYZ' }, 72, 692, null] : null,
+    getPageIndex: async (ref: unknown) => ref === pageRef ? 2 : -1,
+    getPage: async (pageNumber: number) => ({
+        getViewport: () => VIEWPORTS[pageNumber === 2 ? 90 : 0],
+    }),
+} as unknown as PDFDocumentProxy;
+
+const resolve = (dest: string | unknown[]) => resolveDestination(pdf, dest as string | ExplicitDestination);
+
+describe('resolveDestination', () => {
+    it('resolves a named destination through the document', async () => {
+        const target = await resolve('holding');
+        expect(target!.pageNumber).toBe(3);
+        expect(target!.point!.x).toBeCloseTo(72 / PAGE_WIDTH);
+        expect(target!.point!.y).toBeCloseTo(100 / PAGE_HEIGHT);
+    });
+
+    it('accepts a page index where a page reference belongs', async () => {
+        expect(await resolve([0, { name: 'Fit' }])).toEqual({ pageNumber: 1, point: null });
+    });
+
+    it('returns null for unknown names and pages outside the document', async () => {
+        expect(await resolve('missing')).toBeNull();
+        expect(await resolve([3, { name: 'Fit' }])).toBeNull();
+        expect(await resolve([{ num: 99, gen: 0 }, { name: 'Fit' }])).toBeNull();
+        expect(await resolve([0])).toBeNull();
+    });
+
+    it('leaves the left edge unknown for FitH and XYZ without one', async () => {
+        expect(await resolve([0, { name: 'FitH' }, 396])).toEqual({ pageNumber: 1, point: { x: null, y: 0.5 } });
+        expect(await resolve([0, { name: 'XYZ' }, null, 396, null])).toEqual({ pageNumber: 1, point: { x: null, y: 0.5 } });
+    });
+
+    it('leaves the top unknown for FitV', async () => {
+        expect(await resolve([0, { name: 'FitV' }, 306])).toEqual({ pageNumber: 1, point: { x: 0.5, y: null } });
+    });
+
+    it('clamps coordinates to the page', async () => {
+        expect(await resolve([0, { name: 'XYZ' }, -50, 900, 0])).toEqual({ pageNumber: 1, point: { x: 0, y: 0 } });
+    });
+
+    it('follows the page\'s own rotation, keeping the unknown coordinate on the axis it turns to', async () => {
+        // On a page the PDF turns by 90, a FitH top runs across the page, so only x is known
+        const target = await resolve([1, { name: 'FitH' }, 396]);
+        expect(target).toEqual({ pageNumber: 2, point: { x: 0.5, y: null } });
+
+        // Turned back by the viewer, the top is a height on screen again
+        expect(rotatePartialPoint(target!.point!, 270)).toEqual({ x: null, y: 0.5 });
+    });
+});
+
+describe('getPageLinks', () => {
+    it('keeps links with a url or destination, as fractions of the viewport', async () => {
+        const page = {
+            getAnnotations: async () => [
+                { subtype: 'Link', rect: [61.2, 712.8, 306, 792], url: 'https://example.com', newWindow: true },
+                { subtype: 'Link', rect: [0, 0, 306, 79.2], dest: 'holding' },
+                { subtype: 'Link', rect: [0, 0, 10, 10] },
+                { subtype: 'Highlight', rect: [0, 0, 10, 10], dest: 'holding' },
+            ],
+        } as unknown as PDFPageProxy;
+
+        const links = await getPageLinks(page, VIEWPORTS[0] as unknown as PDFPageViewport);
+        expect(links.map(link => link.url || link.dest)).toEqual(['https://example.com', 'holding']);
+        expect(links[0].newWindow).toBe(true);
+        expect(links[0].rect.x1).toBeCloseTo(0.1);
+        expect(links[0].rect.y1).toBeCloseTo(0);
+        expect(links[0].rect.y2).toBeCloseTo(0.1);
+        expect(links[1].rect.y1).toBeCloseTo(0.9);
+        expect(links[1].rect.width).toBeCloseTo(0.5);
+    });
+});
@@ -0,0 +1,98 @@
+// src/lib/outline.ts
+import type { ExplicitDestination, PDFDocumentProxy, PDFPageProxy, PDFPageViewport } from 'pdfjs-dist/build/pdf';
+import type { HighlightRect } from '@/types/highlight';
+import type { PartialPoint } from '@/lib/pageView';
+
+// A page and, when the destination names one, the spot on it in fractions of the unrotated page.
+// Destinations often give only a top, so either coordinate may be unknown
+export interface DestinationTarget {
+    pageNumber: number;
+    point: PartialPoint | null;
+}
+
+export interface PageLink {
+    // Fractions of the page as rendered by the viewport the links were read with
+    rect: HighlightRect;
+    url?: string;
+    dest?: string | ExplicitDestination;
+    newWindow?: boolean;
+}
+
+// Named destinations are looked up in the document first; explicit ones carry the page and view directly
+export const resolveDestination = async (
+    pdf: PDFDocumentProxy,
+    dest: string | ExplicitDestination
+): Promise<DestinationTarget | null> => {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length < 2) return null;
+
+    const [ref, view, ...args] = explicit;
+    // Some producers write a page index where the spec asks for a page reference
+    const pageIndex = typeof ref === 'number' ? ref : ref && typeof ref === 'object' ? await pdf.getPageIndex(ref) : -1;
+    if (!Number.isInteger(pageIndex) || pageIndex < 0 || pageIndex >= pdf.numPages) return null;
+    const pageNumber = pageIndex + 1;
+
+    // XYZ gives left and top, FitH/FitBH only top, FitV/FitBV only left, FitR a rectangle;
+    // anything else shows the whole page
+    let left: number | null = null;
+    let top: number | null = null;
+    switch (view && view.name) {
+        case 'XYZ':
+            left = typeof args[0] === 'number' ? args[0] : null;
+            top = typeof args[1] === 'number' ? args[1] : null;
+            break;
+        case 'FitH':
+        case 'FitBH':
+            top = typeof args[0] === 'number' ? args[0] : null;
+            break;
+        case 'FitV':
+        case 'FitBV':
+            left = typeof args[0] === 'number' ? args[0] : null;
+            break;
+        case 'FitR':
+            left = typeof args[0] === 'number' ? args[0] : null;
+            top = typeof args[3] === 'number' ? args[3] : null;
+            break;
+    }
+    if (left === null && top === null) return { pageNumber, point: null };
+
+    const viewport = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 });
+    const toFraction = (x: number, y: number) => {
+        const [vx, vy] = viewport.convertToViewportPoint(x, y);
+        return { x: vx / viewport.width, y: vy / viewport.height };
+    };
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    // The page's own /Rotate can swap axes, so a missing coordinate is found by varying it:
+    // whichever fraction moves depends on it and stays unknown
+    const a = toFraction(left === null ? 0 : left, top === null ? 0 : top);
+    const b = toFraction(left === null ? 1 : left, top === null ? 1 : top);
+    return {
+        pageNumber,
+        point: {
+            x: a.x === b.x ? clamp(a.x) : null,
+            y: a.y === b.y ? clamp(a.y) : null,
+        },
+    };
+};
+
+export const getPageLinks = async (page: PDFPageProxy, viewport: PDFPageViewport): Promise<PageLink[]> => {
+    const annotations = await page.getAnnotations({ intent: 'display' });
+
+    return annotations
+        .filter(annotation => annotation.subtype === 'Link' && (annotation.url || annotation.dest))
+        .map(annotation => {
+            const [ax, ay] = viewport.convertToViewportPoint(annotation.rect[0], annotation.rect[1]);
+            const [bx, by] = viewport.convertToViewportPoint(annotation.rect[2], annotation.rect[3]);
+            const x1 = Math.min(ax, bx) / viewport.width;
+            const y1 = Math.min(ay, by) / viewport.height;
+            const x2 = Math.max(ax, bx) / viewport.width;
+            const y2 = Math.max(ay, by) / viewport.height;
+
+            return {
+                rect: { x1, y1, x2, y2, width: x2 - x1, height: y2 - y1 },
+                url: annotation.url,
+                dest: annotation.dest,
+                newWindow: annotation.newWindow,
+            };
+        });
+};
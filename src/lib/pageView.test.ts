@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+    invertRotation,
+    normalizeRotation,
+    PageRotation,
+    rotatePartialPoint,
+    rotatePoint,
+    rotateRect,
+} from '@/lib/pageView';
+
+const ROTATIONS: PageRotation[] = [0, 90, 180, 270];
+
+describe('rotatePoint', () => {
+    // The top-left corner of the unrotated page, turned clockwise
+    it.each([
+        [0, { x: 0.1, y: 0.2 }],
+        [90, { x: 0.8, y: 0.1 }],
+        [180, { x: 0.9, y: 0.8 }],
+        [270, { x: 0.2, y: 0.9 }],
+    ] as Array<[PageRotation, { x: number; y: number }]>)('turns a point by %i degrees', (rotation, expected) => {
+        const { x, y } = rotatePoint({ x: 0.1, y: 0.2 }, rotation);
+        expect(x).toBeCloseTo(expected.x);
+        expect(y).toBeCloseTo(expected.y);
+    });
+
+    it.each(ROTATIONS)('is undone by the inverse of %i degrees', rotation => {
+        const { x, y } = rotatePoint(rotatePoint({ x: 0.3, y: 0.7 }, rotation), invertRotation(rotation));
+        expect(x).toBeCloseTo(0.3);
+        expect(y).toBeCloseTo(0.7);
+    });
+
+    it('matches turning a quarter at a time', () => {
+        const point = { x: 0.25, y: 0.6 };
+        expect(rotatePoint(rotatePoint(point, 90), 90)).toEqual(rotatePoint(point, 180));
+        expect(rotatePoint(rotatePoint(point, 180), 90)).toEqual(rotatePoint(point, 270));
+        expect(rotatePoint(point, normalizeRotation(-90))).toEqual(rotatePoint(point, 270));
+    });
+});
+
+describe('rotateRect', () => {
+    const rect = { x1: 0.1, y1: 0.2, x2: 0.4, y2: 0.3, width: 0.3, height: 0.1, pageNumber: 5 };
+
+    it('returns the same rect when not rotated', () => {
+        expect(rotateRect(rect, 0)).toBe(rect);
+    });
+
+    it.each(ROTATIONS)('keeps corners ordered and sizes consistent at %i degrees', rotation => {
+        const rotated = rotateRect(rect, rotation);
+        expect(rotated.x1).toBeLessThan(rotated.x2);
+        expect(rotated.y1).toBeLessThan(rotated.y2);
+        expect(rotated.width).toBeCloseTo(rotated.x2 - rotated.x1);
+        expect(rotated.height).toBeCloseTo(rotated.y2 - rotated.y1);
+        expect(rotated.pageNumber).toBe(5);
+    });
+
+    it('swaps width and height on a quarter turn', () => {
+        const rotated = rotateRect(rect, 90);
+        expect(rotated.x1).toBeCloseTo(0.7);
+        expect(rotated.y1).toBeCloseTo(0.1);
+        expect(rotated.width).toBeCloseTo(0.1);
+        expect(rotated.height).toBeCloseTo(0.3);
+    });
+
+    it.each(ROTATIONS)('is undone by the inverse of %i degrees', rotation => {
+        const restored = rotateRect(rotateRect(rect, rotation), invertRotation(rotation));
+        (['x1', 'y1', 'x2', 'y2', 'width', 'height'] as const).forEach(key => {
+            expect(restored[key]).toBeCloseTo(rect[key]);
+        });
+    });
+});
+
+describe('rotatePartialPoint', () => {
+    it.each(ROTATIONS)('agrees with rotatePoint when both coordinates are known at %i degrees', rotation => {
+        expect(rotatePartialPoint({ x: 0.1, y: 0.2 }, rotation)).toEqual(rotatePoint({ x: 0.1, y: 0.2 }, rotation));
+    });
+
+    it('keeps an unknown coordinate unknown on the axis it turns to', () => {
+        const onlyTop = { x: null, y: 0.2 };
+        expect(rotatePartialPoint(onlyTop, 90)).toEqual({ x: 0.8, y: null });
+        expect(rotatePartialPoint(onlyTop, 180).y).toBeCloseTo(0.8);
+        expect(rotatePartialPoint(onlyTop, 270)).toEqual({ x: 0.2, y: null });
+    });
+});
@@ -0,0 +1,78 @@
+// src/lib/pageView.ts
+import type { InkPoint } from '@/types/highlight';
+
+export type ZoomMode = 'custom' | 'fit-width' | 'fit-page';
+
+// Clockwise, in addition to any rotation the PDF itself gives the page
+export type PageRotation = 0 | 90 | 180 | 270;
+
+// A point where either coordinate may be unknown, such as a link target that only names a height
+export interface PartialPoint {
+    x: number | null;
+    y: number | null;
+}
+
+export const normalizeRotation = (degrees: number) => (((degrees % 360) + 360) % 360) as PageRotation;
+
+// Rotating by the inverse undoes a rotation, turning on-screen coordinates back into stored ones
+export const invertRotation = (rotation: PageRotation) => normalizeRotation(360 - rotation);
+
+export const isQuarterTurn = (rotation: PageRotation) => rotation === 90 || rotation === 270;
+
+// Highlights and ink are stored in fractions of the unrotated page; these map them onto the turned page
+export const rotatePoint = (point: InkPoint, rotation: PageRotation): InkPoint => {
+    switch (rotation) {
+        case 90: return { x: 1 - point.y, y: point.x };
+        case 180: return { x: 1 - point.x, y: 1 - point.y };
+        case 270: return { x: point.y, y: 1 - point.x };
+        default: return point;
+    }
+};
+
+// rotatePoint for a PartialPoint; an unknown coordinate stays unknown on whichever axis it turns to
+export const rotatePartialPoint = (point: PartialPoint, rotation: PageRotation): PartialPoint => {
+    const flip = (value: number | null) => value === null ? null : 1 - value;
+    switch (rotation) {
+        case 90: return { x: flip(point.y), y: point.x };
+        case 180: return { x: flip(point.x), y: flip(point.y) };
+        case 270: return { x: point.y, y: flip(point.x) };
+        default: return point;
+    }
+};
+
+export const rotateRect = <T extends { x1: number; y1: number; x2: number; y2: number; width: number; height: number }>(
+    rect: T,
+    rotation: PageRotation
+): T => {
+    if (rotation === 0) return rect;
+    const a = rotatePoint({ x: rect.x1, y: rect.y1 }, rotation);
+    const b = rotatePoint({ x: rect.x2, y: rect.y2 }, rotation);
+    const x1 = Math.min(a.x, b.x);
+    const y1 = Math.min(a.y, b.y);
+    const x2 = Math.max(a.x, b.x);
+    const y2 = Math.max(a.y, b.y);
+    return { ...rect, x1, y1, x2, y2, width: x2 - x1, height: y2 - y1 };
+};
+
+// The same mapping as rotatePoint for an SVG whose viewBox is the unit square
+export const getRotationTransform = (rotation: PageRotation) => {
+    switch (rotation) {
+        case 90: return 'matrix(0 1 -1 0 1 0)';
+        case 180: return 'matrix(-1 0 0 -1 1 1)';
+        case 270: return 'matrix(0 -1 1 0 0 1)';
+        default: return undefined;
+    }
+};
+
+export const getRotatedSize = (size: { width: number; height: number }, rotation: PageRotation) =>
+    isQuarterTurn(rotation) ? { width: size.height, height: size.width } : size;
+
+// The scale at which a page of `pageSize` (at 100%) fills the available space
+export const getFitScale = (
+    mode: Exclude<ZoomMode, 'custom'>,
+    pageSize: { width: number; height: number },
+    available: { width: number; height: number }
+) => {
+    const widthScale = available.width / pageSize.width;
+    return mode === 'fit-width' ? widthScale : Math.min(widthScale, available.height / pageSize.height);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFStream } from 'pdf-lib';
+import type { PDFDocumentProxy, PDFPageViewport } from 'pdfjs-dist/build/pdf';
+import type { Highlight } from '@/types/highlight';
+import { createPosition } from '@/lib/highlightModel';
+import { exportHighlightedPdf } from '@/lib/pdfExport';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+// Stands in for pdf.js: only the unrotated viewport at scale 1 is used
+const viewport = {
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    convertToPdfPoint: (x: number, y: number) => [x, PAGE_HEIGHT - y],
+} as unknown as PDFPageViewport;
+const pdf = { getPage: async () => ({ getViewport: () => viewport }) } as unknown as PDFDocumentProxy;
+
+const blankPdf = async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const bytes = await doc.save();
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+const rect = { x1: 0.1, y1: 0.1, x2: 0.5, y2: 0.3, width: 0.4, height: 0.2 };
+const snapshotBytes = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10];
+
+const areaHighlight: Highlight = {
+    id: 'area-1',
+    position: createPosition(1, [rect]),
+    content: { text: '', image: `data:image/jpeg;base64,${btoa(String.fromCharCode(...snapshotBytes))}` },
+    color: '#3b82f6',
+    style: 'box',
+    created: new Date(),
+};
+
+const getAnnotations = async (bytes: Uint8Array) => {
+    const doc = await PDFDocument.load(bytes);
+    const annots = doc.getPages()[0].node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    return annots ? annots.asArray().map(ref => doc.context.lookup(ref, PDFDict)) : [];
+};
+
+const subtypeOf = (annot: PDFDict) => annot.lookup(PDFName.of('Subtype'), PDFName).decodeText();
+
+describe('exportHighlightedPdf', () => {
+    it('attaches an area highlight snapshot next to its box', async () => {
+        const annots = await getAnnotations(await exportHighlightedPdf(await blankPdf(), pdf, [areaHighlight]));
+        expect(annots.map(subtypeOf)).toEqual(['Square', 'FileAttachment']);
+
+        const fileSpec = annots[1].lookup(PDFName.of('FS'), PDFDict);
+        const file = fileSpec.lookup(PDFName.of('EF'), PDFDict).lookup(PDFName.of('F'), PDFStream);
+        expect(file.dict.lookup(PDFName.of('Subtype'), PDFName).decodeText()).toBe('image/jpeg');
+        expect(fileSpec.lookup(PDFName.of('UF'), PDFHexString).decodeText()).toBe('area-page-1.jpg');
+    });
+
+    it('replaces snapshots from an earlier export instead of stacking them', async () => {
+        const first = await exportHighlightedPdf(await blankPdf(), pdf, [areaHighlight]);
+        const buffer = first.buffer.slice(first.byteOffset, first.byteOffset + first.byteLength) as ArrayBuffer;
+        const annots = await getAnnotations(await exportHighlightedPdf(buffer, pdf, [areaHighlight], [1]));
+
+        expect(annots.map(subtypeOf)).toEqual(['Square', 'FileAttachment']);
+    });
+
+    it('exports text highlights without an attachment', async () => {
+        const textHighlight: Highlight = { ...areaHighlight, content: { text: 'Held' }, style: 'highlight' };
+        const annots = await getAnnotations(await exportHighlightedPdf(await blankPdf(), pdf, [textHighlight]));
+
+        expect(annots.map(subtypeOf)).toEqual(['Highlight']);
+    });
+});
@@ -0,0 +1,372 @@
+// src/lib/pdfExport.ts
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFPage, PDFString } from 'pdf-lib';
+import type { PDFDocumentProxy, PDFPageViewport } from 'pdfjs-dist/build/pdf';
+import type { Highlight, HighlightRect, InkStroke, MarkupStyle } from '@/types/highlight';
+import {
+    getHighlightSegments,
+    getMarkupStyle,
+    isAreaHighlight,
+    isStickyNote,
+    MARKUP_ANNOTATION_SUBTYPES,
+} from '@/lib/highlightModel';
+import { IMPORTED_ANNOTATION_TYPES } from '@/lib/annotationImport';
+import { downloadBlob } from '@/lib/download';
+
+const ANNOTATION_AUTHOR = 'LawBandit';
+const HIGHLIGHT_OPACITY = 0.5;
+const BOX_BORDER_WIDTH = 1.5;
+const PRINT_FLAG = 4;
+// Size in points of the paperclip that carries an area highlight's snapshot
+const ATTACHMENT_ICON_SIZE = 14;
+// Marks attachments written by export so a re-export of the same file replaces them
+const SNAPSHOT_NAME_SUFFIX = '-snapshot';
+
+type Quad = [number, number, number, number, number, number, number, number];
+
+const hexToRgb = (hex: string): [number, number, number] => {
+    const value = hex.replace('#', '');
+    const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+    return [
+        parseInt(full.substring(0, 2), 16) / 255,
+        parseInt(full.substring(2, 4), 16) / 255,
+        parseInt(full.substring(4, 6), 16) / 255,
+    ];
+};
+
+// QuadPoints follow the order Acrobat writes: upper-left, upper-right, lower-left, lower-right
+const toQuad = (viewport: PDFPageViewport, rect: HighlightRect): Quad => {
+    const left = rect.x1 * viewport.width;
+    const top = rect.y1 * viewport.height;
+    const right = rect.x2 * viewport.width;
+    const bottom = rect.y2 * viewport.height;
+
+    const [x1, y1] = viewport.convertToPdfPoint(left, top);
+    const [x2, y2] = viewport.convertToPdfPoint(right, top);
+    const [x3, y3] = viewport.convertToPdfPoint(left, bottom);
+    const [x4, y4] = viewport.convertToPdfPoint(right, bottom);
+
+    return [x1, y1, x2, y2, x3, y3, x4, y4];
+};
+
+const boundsOf = (quads: Quad[]): [number, number, number, number] => {
+    const xs = ([] as number[]).concat(...quads.map(q => [q[0], q[2], q[4], q[6]]));
+    const ys = ([] as number[]).concat(...quads.map(q => [q[1], q[3], q[5], q[7]]));
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+// A point on the quad's left or right edge, `t` of the way up from the bottom
+const alongEdge = (q: Quad, side: 'left' | 'right', t: number): [number, number] => side === 'left'
+    ? [q[4] + (q[0] - q[4]) * t, q[5] + (q[1] - q[5]) * t]
+    : [q[6] + (q[2] - q[6]) * t, q[7] + (q[3] - q[7]) * t];
+
+const quadHeight = (q: Quad) => Math.hypot(q[0] - q[4], q[1] - q[5]);
+
+const linePath = (q: Quad, t: number) => {
+    const [x1, y1] = alongEdge(q, 'left', t);
+    const [x2, y2] = alongEdge(q, 'right', t);
+    return `${x1} ${y1} m ${x2} ${y2} l S`;
+};
+
+// Zigzag just above the bottom edge, with a wavelength of a quarter of the line height
+const squigglePath = (q: Quad) => {
+    const height = quadHeight(q);
+    const [x1, y1] = alongEdge(q, 'left', 0.08);
+    const [x2, y2] = alongEdge(q, 'right', 0.08);
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length === 0 || height === 0) return '';
+
+    const [dx, dy] = [(x2 - x1) / length, (y2 - y1) / length];
+    const [nx, ny] = [(q[0] - q[4]) / height, (q[1] - q[5]) / height];
+    const step = height / 8;
+    const amplitude = height * 0.06;
+
+    const points: string[] = [];
+    for (let i = 0; i * step <= length; i++) {
+        const offset = i % 2 === 0 ? 0 : amplitude * 2;
+        points.push(`${x1 + dx * i * step + nx * offset} ${y1 + dy * i * step + ny * offset} ${i === 0 ? 'm' : 'l'}`);
+    }
+    return `${points.join(' ')} S`;
+};
+
+const buildMarkupAppearance = (
+    doc: PDFDocument,
+    style: MarkupStyle,
+    quads: Quad[],
+    bounds: [number, number, number, number],
+    color: [number, number, number]
+) => {
+    const lineWidth = (q: Quad) => Math.max(1, quadHeight(q) * 0.07);
+    let content: string;
+
+    if (style === 'highlight') {
+        const fill = quads
+            .map(q => `${q[0]} ${q[1]} m ${q[2]} ${q[3]} l ${q[6]} ${q[7]} l ${q[4]} ${q[5]} l h f`)
+            .join('\n');
+        content = `/GS0 gs\n${color.join(' ')} rg\n${fill}`;
+    } else if (style === 'box') {
+        const [x1, y1, x2, y2] = bounds;
+        const inset = BOX_BORDER_WIDTH / 2;
+        content = `${color.join(' ')} RG\n${BOX_BORDER_WIDTH} w\n${x1 + inset} ${y1 + inset} ${x2 - x1 - BOX_BORDER_WIDTH} ${y2 - y1 - BOX_BORDER_WIDTH} re S`;
+    } else {
+        const strokes = quads.map(q => {
+            const path = style === 'squiggly' ? squigglePath(q) : linePath(q, style === 'strikeout' ? 0.5 : 0.08);
+            return `${lineWidth(q)} w\n${path}`;
+        });
+        content = `${color.join(' ')} RG\n${strokes.join('\n')}`;
+    }
+
+    return doc.context.register(doc.context.stream(content, {
+        Type: 'XObject',
+        Subtype: 'Form',
+        BBox: bounds,
+        Resources: style === 'highlight' ? {
+            ExtGState: {
+                GS0: { Type: 'ExtGState', BM: 'Multiply', CA: HIGHLIGHT_OPACITY, ca: HIGHLIGHT_OPACITY },
+            },
+        } : {},
+    }));
+};
+
+const addHighlightAnnotation = (
+    doc: PDFDocument,
+    page: PDFPage,
+    viewport: PDFPageViewport,
+    highlight: Highlight,
+    segmentIndex: number
+) => {
+    const rects = getHighlightSegments(highlight)[segmentIndex].position.rects;
+    if (rects.length === 0) return;
+
+    const style = getMarkupStyle(highlight);
+    const quads = rects.map(rect => toQuad(viewport, rect));
+    const bounds = boundsOf(quads);
+    const color = hexToRgb(highlight.color);
+
+    // Boxes are Square annotations around the whole segment; the other styles are text markup over each line
+    const annotation = doc.context.obj({
+        Type: 'Annot',
+        Subtype: MARKUP_ANNOTATION_SUBTYPES[style],
+        Rect: bounds,
+        C: color,
+        CA: style === 'highlight' ? HIGHLIGHT_OPACITY : 1,
+        F: PRINT_FLAG,
+        P: page.ref,
+        NM: PDFHexString.fromText(segmentIndex === 0 ? highlight.id : `${highlight.id}-${segmentIndex}`),
+        T: PDFHexString.fromText(highlight.author || ANNOTATION_AUTHOR),
+        M: PDFString.fromDate(new Date()),
+        AP: { N: buildMarkupAppearance(doc, style, quads, bounds, color) },
+    });
+    if (style === 'box') {
+        annotation.set(PDFName.of('BS'), doc.context.obj({ W: BOX_BORDER_WIDTH }));
+    } else {
+        annotation.set(PDFName.of('QuadPoints'), doc.context.obj(([] as number[]).concat(...quads)));
+    }
+    // Continuation segments on later pages carry the highlight but not a second copy of the note
+    if (highlight.comment && segmentIndex === 0) {
+        annotation.set(PDFName.of('Contents'), PDFHexString.fromText(highlight.comment));
+    }
+
+    page.node.addAnnot(doc.context.register(annotation));
+};
+
+const decodeDataUrl = (dataUrl: string) => {
+    const match = /^data:(image\/(?:jpeg|png));base64,(.*)$/.exec(dataUrl);
+    if (!match) return null;
+    const binary = atob(match[2]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { mimeType: match[1], bytes };
+};
+
+// The snapshot of an area highlight is cropped from the page as it was shown, in whatever rotation
+// the viewer had then, so it is attached to the box as an image file rather than drawn over the page
+const addSnapshotAttachment = (doc: PDFDocument, page: PDFPage, viewport: PDFPageViewport, highlight: Highlight) => {
+    const snapshot = highlight.content.image ? decodeDataUrl(highlight.content.image) : null;
+    if (!snapshot) return;
+
+    const { boundingRect } = highlight.position;
+    const [x, y] = viewport.convertToPdfPoint(boundingRect.x1 * viewport.width, boundingRect.y1 * viewport.height);
+    const bounds: [number, number, number, number] = [x, y - ATTACHMENT_ICON_SIZE, x + ATTACHMENT_ICON_SIZE, y];
+    const color = hexToRgb(highlight.color);
+    const fileName = `area-page-${boundingRect.pageNumber}.${snapshot.mimeType === 'image/png' ? 'png' : 'jpg'}`;
+
+    const file = doc.context.register(doc.context.flateStream(snapshot.bytes, {
+        Type: 'EmbeddedFile',
+        Subtype: snapshot.mimeType,
+        Params: { Size: snapshot.bytes.length },
+    }));
+    const [x1, y1, x2, y2] = bounds;
+    const content = `${color.join(' ')} rg\n0 0 0 RG\n0.5 w\n${x1} ${y1} ${x2 - x1} ${y2 - y1} re B`;
+
+    const annotation = doc.context.obj({
+        Type: 'Annot',
+        Subtype: 'FileAttachment',
+        Rect: bounds,
+        Name: 'Paperclip',
+        C: color,
+        F: PRINT_FLAG,
+        P: page.ref,
+        NM: PDFHexString.fromText(highlight.id + SNAPSHOT_NAME_SUFFIX),
+        T: PDFHexString.fromText(highlight.author || ANNOTATION_AUTHOR),
+        M: PDFString.fromDate(new Date()),
+        Contents: PDFHexString.fromText(`Snapshot of the highlighted area on page ${boundingRect.pageNumber}`),
+        FS: {
+            Type: 'Filespec',
+            F: PDFString.of(fileName),
+            UF: PDFHexString.fromText(fileName),
+            EF: { F: file },
+        },
+        AP: {
+            N: doc.context.register(doc.context.stream(content, { Type: 'XObject', Subtype: 'Form', BBox: bounds })),
+        },
+    });
+
+    page.node.addAnnot(doc.context.register(annotation));
+};
+
+// Sticky notes become Text annotations: viewers draw their own note icon at Rect and show
+// Contents in a popup; the appearance stream is a plain colored note for viewers that don't
+const addNoteAnnotation = (doc: PDFDocument, page: PDFPage, viewport: PDFPageViewport, highlight: Highlight) => {
+    const rect = highlight.position.rects[0] || highlight.position.boundingRect;
+    const bounds = boundsOf([toQuad(viewport, rect)]);
+    const [x1, y1, x2, y2] = bounds;
+    const color = hexToRgb(highlight.color);
+
+    const lineGap = (y2 - y1) / 4;
+    const lines = [1, 2, 3]
+        .map(i => `${x1 + 3} ${y2 - lineGap * i} m ${x2 - 3} ${y2 - lineGap * i} l`)
+        .join(' ');
+    const content = `${color.join(' ')} rg\n0 0 0 RG\n0.5 w\n${x1} ${y1} ${x2 - x1} ${y2 - y1} re B\n${lines} S`;
+
+    const annotation = doc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Text',
+        Rect: bounds,
+        Name: 'Comment',
+        Open: false,
+        C: color,
+        F: PRINT_FLAG,
+        P: page.ref,
+        NM: PDFHexString.fromText(highlight.id),
+        T: PDFHexString.fromText(highlight.author || ANNOTATION_AUTHOR),
+        M: PDFString.fromDate(new Date()),
+        Contents: PDFHexString.fromText(highlight.comment || ''),
+        AP: {
+            N: doc.context.register(doc.context.stream(content, { Type: 'XObject', Subtype: 'Form', BBox: bounds })),
+        },
+    });
+
+    page.node.addAnnot(doc.context.register(annotation));
+};
+
+const addInkAnnotation = (doc: PDFDocument, page: PDFPage, viewport: PDFPageViewport, stroke: InkStroke) => {
+    if (stroke.points.length === 0) return;
+
+    const points = stroke.points.map(p => viewport.convertToPdfPoint(p.x * viewport.width, p.y * viewport.height));
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    // The stroke's width extends past its centerline, so the bounds are padded to keep it unclipped
+    const pad = stroke.width;
+    const bounds: [number, number, number, number] = [
+        Math.min(...xs) - pad, Math.min(...ys) - pad, Math.max(...xs) + pad, Math.max(...ys) + pad,
+    ];
+    const color = hexToRgb(stroke.color);
+
+    const path = points.map((p, i) => `${p[0]} ${p[1]} ${i === 0 ? 'm' : 'l'}`).join(' ');
+    const content = `${color.join(' ')} RG\n${stroke.width} w\n1 J\n1 j\n${path}${points.length === 1 ? ` ${points[0][0]} ${points[0][1]} l` : ''} S`;
+
+    const annotation = doc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Ink',
+        Rect: bounds,
+        InkList: [([] as number[]).concat(...points)],
+        C: color,
+        BS: { W: stroke.width },
+        F: PRINT_FLAG,
+        P: page.ref,
+        NM: PDFHexString.fromText(stroke.id),
+        T: PDFHexString.fromText(ANNOTATION_AUTHOR),
+        M: PDFString.fromDate(new Date()),
+        AP: {
+            N: doc.context.register(doc.context.stream(content, { Type: 'XObject', Subtype: 'Form', BBox: bounds })),
+        },
+    });
+
+    page.node.addAnnot(doc.context.register(annotation));
+};
+
+// Imported annotations live in the highlight list, so the originals (and their popups) are
+// dropped before re-export to keep edits and deletions from being shadowed by stale copies.
+// Snapshot attachments from an earlier export go too; their boxes come back as imported highlights
+const removeImportedAnnotations = (page: PDFPage) => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+
+    const subtypeOf = (dict: PDFDict | undefined) => {
+        const subtype = dict?.get(PDFName.of('Subtype'));
+        return subtype instanceof PDFName ? subtype.decodeText() : undefined;
+    };
+
+    for (let i = annots.size() - 1; i >= 0; i--) {
+        const annot = annots.lookupMaybe(i, PDFDict);
+        const subtype = subtypeOf(annot);
+        const parentSubtype = subtype === 'Popup'
+            ? subtypeOf(annot?.lookupMaybe(PDFName.of('Parent'), PDFDict))
+            : undefined;
+
+        const name = annot?.lookupMaybe(PDFName.of('NM'), PDFString, PDFHexString);
+        const isSnapshot = subtype === 'FileAttachment' && !!name && name.decodeText().endsWith(SNAPSHOT_NAME_SUFFIX);
+
+        if ((subtype && IMPORTED_ANNOTATION_TYPES.includes(subtype)) ||
+            (parentSubtype && IMPORTED_ANNOTATION_TYPES.includes(parentSubtype)) || isSnapshot) {
+            annots.remove(i);
+        }
+    }
+};
+
+export const exportHighlightedPdf = async (
+    data: ArrayBuffer,
+    pdf: PDFDocumentProxy,
+    highlights: Highlight[],
+    importedPages: number[] = [],
+    inkStrokes: InkStroke[] = []
+): Promise<Uint8Array> => {
+    const doc = await PDFDocument.load(data, { ignoreEncryption: true });
+    const pages = doc.getPages();
+
+    importedPages.forEach(pageNum => {
+        if (pages[pageNum - 1]) removeImportedAnnotations(pages[pageNum - 1]);
+    });
+
+    for (let pageNum = 1; pageNum <= pages.length; pageNum++) {
+        const pageSegments: Array<{ highlight: Highlight; index: number }> = [];
+        highlights.forEach(highlight => {
+            getHighlightSegments(highlight).forEach((segment, index) => {
+                if (segment.position.boundingRect.pageNumber === pageNum) pageSegments.push({ highlight, index });
+            });
+        });
+        const pageStrokes = inkStrokes.filter(stroke => stroke.pageNumber === pageNum);
+        if (pageSegments.length === 0 && pageStrokes.length === 0) continue;
+
+        const pdfPage = await pdf.getPage(pageNum);
+        const viewport = pdfPage.getViewport({ scale: 1 });
+
+        pageSegments.forEach(({ highlight, index }) => {
+            if (isStickyNote(highlight)) {
+                addNoteAnnotation(doc, pages[pageNum - 1], viewport, highlight);
+            } else {
+                addHighlightAnnotation(doc, pages[pageNum - 1], viewport, highlight, index);
+                if (index === 0 && isAreaHighlight(highlight)) {
+                    addSnapshotAttachment(doc, pages[pageNum - 1], viewport, highlight);
+                }
+            }
+        });
+        pageStrokes.forEach(stroke => addInkAnnotation(doc, pages[pageNum - 1], viewport, stroke));
+    }
+
+    return doc.save();
+};
+
+export const downloadPdf = (bytes: Uint8Array, filename: string) => {
+    downloadBlob(new Blob([bytes as BlobPart], { type: 'application/pdf' }), filename);
+};
@@ -0,0 +1,22 @@
+// src/lib/pdfjs.ts
+import type * as PdfJs from 'pdfjs-dist/build/pdf';
+
+let pdfjsPromise: Promise<typeof PdfJs> | null = null;
+
+// The worker is emitted as a static asset next to the app bundle
+export const getPdfWorkerSrc = () => new URL('pdfjs-dist/build/pdf.worker.min.js', import.meta.url).toString();
+
+// pdf.js expects browser globals when it is evaluated, so the bundled copy is loaded on first use
+// instead of during server rendering
+export const loadPdfJs = () => {
+    if (!pdfjsPromise) {
+        pdfjsPromise = import('pdfjs-dist/build/pdf').then(pdfjs => {
+            pdfjs.GlobalWorkerOptions.workerSrc = getPdfWorkerSrc();
+            return pdfjs;
+        });
+        pdfjsPromise.catch(() => {
+            pdfjsPromise = null;
+        });
+    }
+    return pdfjsPromise;
+};
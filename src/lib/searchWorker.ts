@@ -0,0 +1,8 @@
+// src/lib/searchWorker.ts
+import { searchPages } from '@/lib/textSearch';
+import type { SearchRequest } from '@/lib/backgroundSearch';
+
+addEventListener('message', (event: MessageEvent<SearchRequest>) => {
+    const { pages, query, options } = event.data;
+    postMessage(searchPages(pages, query, options));
+});
@@ -0,0 +1,20 @@
+// src/lib/serviceWorker.ts
+import { getPdfWorkerSrc } from '@/lib/pdfjs';
+
+// Static assets the page has already loaded, which the service worker didn't see on its first install
+const getLoadedAssetUrls = () =>
+    performance.getEntriesByType('resource')
+        .map(entry => entry.name)
+        .filter(url => new URL(url).pathname.startsWith('/_next/static/'));
+
+// Registered in production builds only: the dev server's hot reloading doesn't mix with cached assets
+export const registerServiceWorker = async () => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    await navigator.serviceWorker.register('/sw.js');
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({
+        type: 'precache',
+        urls: [...getLoadedAssetUrls(), getPdfWorkerSrc()],
+    });
+};
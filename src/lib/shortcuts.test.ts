@@ -0,0 +1,98 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    DEFAULT_SHORTCUTS,
+    findShortcutAction,
+    formatKey,
+    getColorIndex,
+    isEditableTarget,
+    loadShortcuts,
+    rebindShortcut,
+    saveShortcuts,
+} from '@/lib/shortcuts';
+
+describe('findShortcutAction', () => {
+    it('finds the action bound to a key', () => {
+        expect(findShortcutAction(DEFAULT_SHORTCUTS, 'j')).toBe('nextPage');
+        expect(findShortcutAction(DEFAULT_SHORTCUTS, 'ArrowLeft')).toBe('previousPage');
+        expect(findShortcutAction(DEFAULT_SHORTCUTS, '3')).toBe('color3');
+        expect(getColorIndex('color3')).toBe(2);
+    });
+
+    it('matches letters regardless of case but named keys exactly', () => {
+        expect(findShortcutAction(DEFAULT_SHORTCUTS, 'J')).toBe('nextPage');
+        expect(findShortcutAction(DEFAULT_SHORTCUTS, 'arrowleft')).toBeNull();
+    });
+
+    it('returns null for unbound keys', () => {
+        expect(findShortcutAction(DEFAULT_SHORTCUTS, 'q')).toBeNull();
+    });
+});
+
+describe('rebindShortcut', () => {
+    it('moves a key away from the action that had it', () => {
+        const bindings = rebindShortcut(DEFAULT_SHORTCUTS, 'zoomIn', 'J');
+
+        expect(bindings.zoomIn).toEqual(['j']);
+        expect(bindings.nextPage).toEqual(['ArrowRight']);
+        expect(findShortcutAction(bindings, 'j')).toBe('zoomIn');
+        expect(DEFAULT_SHORTCUTS.nextPage).toEqual(['j', 'ArrowRight']);
+    });
+});
+
+describe('isEditableTarget', () => {
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <input id="field">
+            <select id="choice"></select>
+            <div contenteditable="true"><span id="note">text</span></div>
+            <div id="page"><span id="word">text</span></div>
+        `;
+    });
+
+    it('is true for fields and anything inside an editable element', () => {
+        ['field', 'choice', 'note'].forEach(id => {
+            expect(isEditableTarget(document.getElementById(id))).toBe(true);
+        });
+    });
+
+    it('is false for the page and for targets that are not elements', () => {
+        expect(isEditableTarget(document.getElementById('word'))).toBe(false);
+        expect(isEditableTarget(window)).toBe(false);
+        expect(isEditableTarget(null)).toBe(false);
+    });
+});
+
+describe('stored shortcuts', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('round-trip through storage', () => {
+        const bindings = rebindShortcut(DEFAULT_SHORTCUTS, 'showHelp', 'h');
+        expect(saveShortcuts(bindings)).toBe(true);
+        expect(loadShortcuts()).toEqual(bindings);
+    });
+
+    it('fall back to the defaults for missing or malformed entries', () => {
+        localStorage.setItem('lawbandit-shortcuts', JSON.stringify({ zoomIn: ['z'], zoomOut: 'x', nextPage: [1] }));
+        expect(loadShortcuts()).toEqual({ ...DEFAULT_SHORTCUTS, zoomIn: ['z'] });
+
+        localStorage.setItem('lawbandit-shortcuts', '{');
+        expect(loadShortcuts()).toEqual(DEFAULT_SHORTCUTS);
+    });
+
+    it('report a failed save', () => {
+        const setItem = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+            throw new Error('QuotaExceededError');
+        });
+        expect(saveShortcuts(DEFAULT_SHORTCUTS)).toBe(false);
+        setItem.mockRestore();
+    });
+});
+
+describe('formatKey', () => {
+    it('labels named keys and capitalizes letters', () => {
+        expect(formatKey('ArrowRight')).toBe('→');
+        expect(formatKey(' ')).toBe('Space');
+        expect(formatKey('j')).toBe('J');
+    });
+});
@@ -0,0 +1,110 @@
+// src/lib/shortcuts.ts
+
+export type ShortcutAction =
+    | 'color1' | 'color2' | 'color3' | 'color4' | 'color5' | 'color6' | 'color7' | 'color8' | 'color9'
+    | 'nextPage'
+    | 'previousPage'
+    | 'zoomIn'
+    | 'zoomOut'
+    | 'rotatePage'
+    | 'focusSearch'
+    | 'deleteHighlight'
+    | 'showHelp';
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+export interface ShortcutDefinition {
+    action: ShortcutAction;
+    description: string;
+}
+
+const COLOR_ACTIONS: ShortcutAction[] = ['color1', 'color2', 'color3', 'color4', 'color5', 'color6', 'color7', 'color8', 'color9'];
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+    ...COLOR_ACTIONS.map((action, i) => ({ action, description: `Highlight with color ${i + 1}` })),
+    { action: 'nextPage', description: 'Next page' },
+    { action: 'previousPage', description: 'Previous page' },
+    { action: 'zoomIn', description: 'Zoom in' },
+    { action: 'zoomOut', description: 'Zoom out' },
+    { action: 'rotatePage', description: 'Rotate current page' },
+    { action: 'focusSearch', description: 'Search document' },
+    { action: 'deleteHighlight', description: 'Delete focused highlight' },
+    { action: 'showHelp', description: 'Show keyboard shortcuts' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+    ...COLOR_ACTIONS.reduce((bindings, action, i) => ({ ...bindings, [action]: [String(i + 1)] }), {} as ShortcutBindings),
+    nextPage: ['j', 'ArrowRight'],
+    previousPage: ['k', 'ArrowLeft'],
+    zoomIn: ['+', '='],
+    zoomOut: ['-'],
+    rotatePage: ['r'],
+    focusSearch: ['/'],
+    deleteHighlight: ['Delete', 'Backspace'],
+    showHelp: ['?'],
+};
+
+const STORAGE_KEY = 'lawbandit-shortcuts';
+
+export const getColorIndex = (action: ShortcutAction) => COLOR_ACTIONS.indexOf(action);
+
+// Letters are matched case-insensitively; everything else by the character the key produces
+export const normalizeKey = (key: string) => key.length === 1 ? key.toLowerCase() : key;
+
+export const findShortcutAction = (bindings: ShortcutBindings, key: string): ShortcutAction | null => {
+    const normalized = normalizeKey(key);
+    const match = SHORTCUT_DEFINITIONS.find(({ action }) => bindings[action].includes(normalized));
+    return match ? match.action : null;
+};
+
+// Keys typed into a field or an editable note belong to it, not to the viewer
+export const isEditableTarget = (target: EventTarget | null) =>
+    target instanceof Element && !!target.closest('input, textarea, select, [contenteditable="true"]');
+
+// A key can only trigger one action, so it is taken away from whichever action had it
+export const rebindShortcut = (bindings: ShortcutBindings, action: ShortcutAction, key: string): ShortcutBindings => {
+    const normalized = normalizeKey(key);
+    const updated = { ...bindings };
+    SHORTCUT_DEFINITIONS.forEach(definition => {
+        updated[definition.action] = bindings[definition.action].filter(k => k !== normalized);
+    });
+    updated[action] = [normalized];
+    return updated;
+};
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Backspace: '⌫',
+    Delete: 'Del',
+    Escape: 'Esc',
+    ' ': 'Space',
+};
+
+export const formatKey = (key: string) => KEY_LABELS[key] || (key.length === 1 ? key.toUpperCase() : key);
+
+export const loadShortcuts = (): ShortcutBindings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        const bindings = { ...DEFAULT_SHORTCUTS };
+        SHORTCUT_DEFINITIONS.forEach(({ action }) => {
+            const keys = stored[action];
+            if (Array.isArray(keys) && keys.every(k => typeof k === 'string')) bindings[action] = keys;
+        });
+        return bindings;
+    } catch {
+        return DEFAULT_SHORTCUTS;
+    }
+};
+
+// Returns false when the browser refuses the write, e.g. storage is full or disabled
+export const saveShortcuts = (bindings: ShortcutBindings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+        return true;
+    } catch {
+        return false;
+    }
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CATEGORIES, Highlight, HIGHLIGHT_SIDECAR_VERSION } from '@/types/highlight';
+import { createSidecar, parseSidecar, serializeSidecar, SidecarError } from '@/lib/sidecar';
+
+const rect = { x1: 0.1, y1: 0.2, x2: 0.5, y2: 0.25, width: 0.4, height: 0.05 };
+
+const highlight: Highlight = {
+    id: 'h1',
+    position: { boundingRect: { ...rect, pageNumber: 2 }, rects: [rect] },
+    content: { text: 'The court held' },
+    color: '#fbbf24',
+    categoryId: 'holding',
+    created: new Date('2024-03-01T12:00:00.000Z'),
+};
+
+const sidecarJson = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+    ...JSON.parse(serializeSidecar(createSidecar({
+        fingerprint: 'abc123',
+        fileName: 'case.pdf',
+        pageCount: 3,
+        highlights: [highlight],
+        categories: DEFAULT_CATEGORIES,
+    }))),
+    ...overrides,
+});
+
+const withHighlight = (overrides: Record<string, unknown>) =>
+    sidecarJson({ highlights: [{ ...JSON.parse(JSON.stringify(highlight)), ...overrides }] });
+
+describe('parseSidecar', () => {
+    it('reads back what it writes', () => {
+        const sidecar = parseSidecar(sidecarJson());
+
+        expect(sidecar.version).toBe(HIGHLIGHT_SIDECAR_VERSION);
+        expect(sidecar.fingerprint).toBe('abc123');
+        expect(sidecar.highlights).toEqual([{ ...highlight, anchor: undefined, segments: undefined }]);
+        expect(sidecar.categories).toEqual(DEFAULT_CATEGORIES);
+    });
+
+    it('turns version 1 custom colors into categories after the defaults', () => {
+        const sidecar = parseSidecar(sidecarJson({
+            version: 1,
+            categories: undefined,
+            customColors: [
+                { name: 'Teal', value: '#14b8a6', background: 'rgb(153, 246, 228)' },
+                // Already one of the default categories, so not added twice
+                { name: 'Yellow', value: '#fbbf24', background: '#fef08a' },
+            ],
+        }));
+
+        expect(sidecar.categories).toEqual([
+            ...DEFAULT_CATEGORIES,
+            { id: 'custom-legacy-1', name: 'Teal', description: '', value: '#14b8a6', background: 'rgb(153, 246, 228)' },
+        ]);
+    });
+
+    it('gives version 1 files without custom colors the default categories', () => {
+        expect(parseSidecar(sidecarJson({ version: 1, categories: undefined })).categories).toEqual(DEFAULT_CATEGORIES);
+    });
+
+    it('drops a malformed anchor and keeps the highlight', () => {
+        const sidecar = parseSidecar(withHighlight({ anchor: { quote: 'The court held', start: { itemIndex: 0 } } }));
+        expect(sidecar.highlights[0].anchor).toBeUndefined();
+    });
+
+    it.each([
+        ['invalid JSON', '{', 'File is not valid JSON'],
+        ['another schema', sidecarJson({ schema: 'something-else' }), 'File is not a LawBandit highlight file'],
+        ['a newer version', sidecarJson({ version: HIGHLIGHT_SIDECAR_VERSION + 1 }), 'Unsupported highlight file version'],
+        ['a missing fingerprint', sidecarJson({ fingerprint: undefined }), 'missing required fields'],
+        ['a page past the end', withHighlight({
+            position: { boundingRect: { ...rect, pageNumber: 4 }, rects: [rect] },
+        }), 'highlights[0] has an invalid page number'],
+        ['a non-numeric rect', withHighlight({
+            position: { boundingRect: { ...rect, pageNumber: 1 }, rects: [{ ...rect, x1: '0.1' }] },
+        }), 'highlights[0].position.rects[0]'],
+        ['missing text', withHighlight({ content: {} }), 'highlights[0].content.text is missing'],
+        ['an invalid date', withHighlight({ created: 'yesterday' }), 'highlights[0].created is not a valid date'],
+    ])('rejects %s', (_, json, message) => {
+        expect(() => parseSidecar(json)).toThrow(SidecarError);
+        expect(() => parseSidecar(json)).toThrow(message);
+    });
+
+    it.each([
+        'red',
+        '#fbbf2',
+        '#fbbf24;background:url(https://example.com/x)',
+        '"><img src=x onerror=alert(1)>',
+    ])('rejects the highlight color %j', color => {
+        expect(() => parseSidecar(withHighlight({ color }))).toThrow('highlights[0].color must be a hex color');
+    });
+
+    it('accepts short hex colors', () => {
+        expect(parseSidecar(withHighlight({ color: '#FB2' })).highlights[0].color).toBe('#FB2');
+    });
+
+    it('rejects category and custom colors that are not hex', () => {
+        expect(() => parseSidecar(sidecarJson({
+            categories: [{ ...DEFAULT_CATEGORIES[0], value: 'url(x)' }],
+        }))).toThrow('categories[0] must have an id, a name, a hex value and a background color');
+        expect(() => parseSidecar(sidecarJson({
+            version: 1,
+            customColors: [{ name: 'Teal', value: '#14b8a6', background: 'expression(alert(1))' }],
+        }))).toThrow('customColors[0] must have a name, a hex value and a background color');
+    });
+
+    it('rejects ink strokes without a hex color', () => {
+        const stroke = {
+            id: 's1',
+            pageNumber: 1,
+            points: [{ x: 0.1, y: 0.1 }, { x: 0.2, y: 0.2 }],
+            color: 'blue',
+            width: 2,
+            created: '2024-03-01T12:00:00.000Z',
+        };
+        expect(() => parseSidecar(sidecarJson({ inkStrokes: [stroke] })))
+            .toThrow('inkStrokes[0] must have a hex color and a width');
+        expect(parseSidecar(sidecarJson({ inkStrokes: [{ ...stroke, color: '#3b82f6' }] })).inkStrokes)
+            .toHaveLength(1);
+    });
+});
@@ -0,0 +1,222 @@
+// src/lib/sidecar.ts
+import {
+    Highlight,
+    HighlightCategory,
+    HighlightColor,
+    HighlightSegment,
+    HighlightSidecar,
+    HIGHLIGHT_SIDECAR_SCHEMA,
+    HIGHLIGHT_SIDECAR_VERSION,
+    InkStroke,
+} from '@/types/highlight';
+import {
+    categoriesFromCustomColors,
+    isHexColor,
+    isImageDataUrl,
+    isMarkupStyle,
+    isNumber,
+    isObject,
+    migrateAnchor,
+} from '@/lib/highlightModel';
+
+export class SidecarError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SidecarError';
+    }
+}
+
+export const createSidecar = (params: {
+    fingerprint: string;
+    fileName: string;
+    pageCount: number;
+    highlights: Highlight[];
+    categories: HighlightCategory[];
+    inkStrokes?: InkStroke[];
+}): HighlightSidecar => ({
+    schema: HIGHLIGHT_SIDECAR_SCHEMA,
+    version: HIGHLIGHT_SIDECAR_VERSION,
+    fingerprint: params.fingerprint,
+    fileName: params.fileName,
+    pageCount: params.pageCount,
+    exportedAt: new Date(),
+    highlights: params.highlights,
+    categories: params.categories,
+    inkStrokes: params.inkStrokes && params.inkStrokes.length > 0 ? params.inkStrokes : undefined,
+});
+
+export const serializeSidecar = (sidecar: HighlightSidecar) => JSON.stringify(sidecar, null, 2);
+
+// Backgrounds may also be the rgb() form generateBackgroundColor produces
+const isBackgroundColor = (value: unknown): value is string =>
+    isHexColor(value) || (typeof value === 'string' && /^rgb\(\d{1,3}, ?\d{1,3}, ?\d{1,3}\)$/.test(value));
+
+const parseDate = (value: unknown, field: string) => {
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+        throw new SidecarError(`${field} is not a valid date`);
+    }
+    return date;
+};
+
+const parseRect = (value: unknown, field: string) => {
+    if (!isObject(value)) throw new SidecarError(`${field} must have numeric x1, y1, x2 and y2`);
+    const { x1, y1, x2, y2 } = value;
+    if (!isNumber(x1) || !isNumber(y1) || !isNumber(x2) || !isNumber(y2)) {
+        throw new SidecarError(`${field} must have numeric x1, y1, x2 and y2`);
+    }
+    return {
+        x1,
+        y1,
+        x2,
+        y2,
+        width: isNumber(value.width) ? value.width : x2 - x1,
+        height: isNumber(value.height) ? value.height : y2 - y1,
+    };
+};
+
+const parseSegment = (value: unknown, field: string, pageCount: number): HighlightSegment => {
+    if (!isObject(value) || !isObject(value.position) || !Array.isArray(value.position.rects)) {
+        throw new SidecarError(`${field}.position is missing`);
+    }
+
+    const boundingRect = value.position.boundingRect;
+    const pageNumber = isObject(boundingRect) ? boundingRect.pageNumber : undefined;
+    if (!isNumber(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+        throw new SidecarError(`${field} has an invalid page number`);
+    }
+
+    return {
+        position: {
+            boundingRect: { ...parseRect(boundingRect, `${field}.position.boundingRect`), pageNumber },
+            rects: value.position.rects.map((rect: unknown, i: number) =>
+                parseRect(rect, `${field}.position.rects[${i}]`)),
+        },
+        anchor: migrateAnchor(value.anchor, pageNumber),
+    };
+};
+
+const parseHighlight = (value: unknown, index: number, pageCount: number): Highlight => {
+    const field = `highlights[${index}]`;
+    if (!isObject(value)) throw new SidecarError(`${field} must be an object`);
+    if (typeof value.id !== 'string' || !value.id) throw new SidecarError(`${field}.id is missing`);
+    if (!isHexColor(value.color)) throw new SidecarError(`${field}.color must be a hex color`);
+    if (!isObject(value.content) || typeof value.content.text !== 'string') {
+        throw new SidecarError(`${field}.content.text is missing`);
+    }
+
+    const { position, anchor } = parseSegment(value, field, pageCount);
+    if (value.segments !== undefined && !Array.isArray(value.segments)) {
+        throw new SidecarError(`${field}.segments must be an array`);
+    }
+    const segments: HighlightSegment[] | undefined = value.segments?.map((segment: unknown, i: number) =>
+        parseSegment(segment, `${field}.segments[${i}]`, pageCount));
+
+    return {
+        id: value.id,
+        position,
+        anchor,
+        segments: segments && segments.length > 0 ? segments : undefined,
+        content: {
+            text: value.content.text,
+            image: isImageDataUrl(value.content.image) ? value.content.image : undefined,
+        },
+        comment: typeof value.comment === 'string' ? value.comment : undefined,
+        author: typeof value.author === 'string' ? value.author : undefined,
+        color: value.color,
+        categoryId: typeof value.categoryId === 'string' ? value.categoryId : undefined,
+        style: isMarkupStyle(value.style) ? value.style : undefined,
+        sticky: value.sticky === true || undefined,
+        created: parseDate(value.created, `${field}.created`),
+    };
+};
+
+const parseInkStroke = (value: unknown, index: number, pageCount: number): InkStroke => {
+    const field = `inkStrokes[${index}]`;
+    if (!isObject(value)) throw new SidecarError(`${field} must be an object`);
+    if (typeof value.id !== 'string' || !value.id) throw new SidecarError(`${field}.id is missing`);
+    if (!isHexColor(value.color) || !isNumber(value.width)) {
+        throw new SidecarError(`${field} must have a hex color and a width`);
+    }
+    if (!isNumber(value.pageNumber) || value.pageNumber < 1 || value.pageNumber > pageCount) {
+        throw new SidecarError(`${field} has an invalid page number`);
+    }
+    if (!Array.isArray(value.points) || !value.points.every((p: unknown) => isObject(p) && isNumber(p.x) && isNumber(p.y))) {
+        throw new SidecarError(`${field}.points must be a list of x/y points`);
+    }
+
+    return {
+        id: value.id,
+        pageNumber: value.pageNumber,
+        points: value.points.map((p: Record<string, number>) => ({ x: p.x, y: p.y })),
+        color: value.color,
+        width: value.width,
+        created: parseDate(value.created, `${field}.created`),
+    };
+};
+
+const parseColor = (value: unknown, index: number): HighlightColor => {
+    if (!isObject(value) || typeof value.name !== 'string' ||
+        !isHexColor(value.value) || !isBackgroundColor(value.background)) {
+        throw new SidecarError(`customColors[${index}] must have a name, a hex value and a background color`);
+    }
+    return { name: value.name, value: value.value, background: value.background };
+};
+
+const parseCategory = (value: unknown, index: number): HighlightCategory => {
+    if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string' ||
+        !isHexColor(value.value) || !isBackgroundColor(value.background)) {
+        throw new SidecarError(`categories[${index}] must have an id, a name, a hex value and a background color`);
+    }
+    return {
+        id: value.id,
+        name: value.name,
+        description: typeof value.description === 'string' ? value.description : '',
+        value: value.value,
+        background: value.background,
+    };
+};
+
+// Version 1 files carried custom colors alongside the fixed palette instead of categories
+const parseCategories = (data: Record<string, unknown>): HighlightCategory[] => {
+    if (isNumber(data.version) && data.version >= 2 && Array.isArray(data.categories)) {
+        return data.categories.map(parseCategory);
+    }
+    const customColors = Array.isArray(data.customColors) ? data.customColors.map(parseColor) : [];
+    return categoriesFromCustomColors(customColors);
+};
+
+export const parseSidecar = (json: string): HighlightSidecar => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new SidecarError('File is not valid JSON');
+    }
+
+    if (!isObject(data) || data.schema !== HIGHLIGHT_SIDECAR_SCHEMA) {
+        throw new SidecarError('File is not a LawBandit highlight file');
+    }
+    if (!isNumber(data.version) || data.version > HIGHLIGHT_SIDECAR_VERSION) {
+        throw new SidecarError(`Unsupported highlight file version: ${data.version}`);
+    }
+    const { pageCount } = data;
+    if (typeof data.fingerprint !== 'string' || !isNumber(pageCount) ||
+        !Array.isArray(data.highlights)) {
+        throw new SidecarError('Highlight file is missing required fields');
+    }
+
+    return {
+        schema: HIGHLIGHT_SIDECAR_SCHEMA,
+        version: data.version,
+        fingerprint: data.fingerprint,
+        fileName: typeof data.fileName === 'string' ? data.fileName : '',
+        pageCount,
+        exportedAt: parseDate(data.exportedAt, 'exportedAt'),
+        highlights: data.highlights.map((h: unknown, i: number) => parseHighlight(h, i, pageCount)),
+        categories: parseCategories(data),
+        inkStrokes: Array.isArray(data.inkStrokes)
+            ? data.inkStrokes.map((s: unknown, i: number) => parseInkStroke(s, i, pageCount))
+            : undefined,
+    };
+};
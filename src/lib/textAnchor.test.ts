@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { PageTextIndex } from '@/lib/textSearch';
+import { createTextAnchor, resolveTextAnchor } from '@/lib/textAnchor';
+
+// One text item per line, joined the way buildPageIndex joins items that end a line
+const makePage = (lines: string[]): PageTextIndex => {
+    let text = '';
+    const items = lines.map(str => {
+        const item = { start: text.length, end: text.length + str.length, x: 0, y: 0, width: 0, height: 0 };
+        text += str + '\n';
+        return item;
+    });
+    return { pageNum: 1, text, items };
+};
+
+const rangeOf = (page: PageTextIndex, quote: string, fromIndex = 0) => {
+    const start = page.text.indexOf(quote, fromIndex);
+    return { start, end: start + quote.length };
+};
+
+const lines = [
+    'The defendant appealed.',
+    'The court held that the contract was void.',
+    'Costs were awarded to the plaintiff.',
+];
+
+describe('createTextAnchor', () => {
+    it('records item offsets, the quote and its context', () => {
+        const page = makePage(lines);
+        const anchor = createTextAnchor(page, rangeOf(page, 'the contract was void'));
+
+        expect(anchor).toMatchObject({
+            pageNumber: 1,
+            start: { itemIndex: 1, offset: 20 },
+            end: { itemIndex: 1, offset: 41 },
+            quote: 'the contract was void',
+        });
+        expect(anchor!.prefix.endsWith('The court held that ')).toBe(true);
+        expect(anchor!.suffix.startsWith('.\nCosts')).toBe(true);
+    });
+
+    it('steps past line breaks at either end of the range', () => {
+        const page = makePage(lines);
+        const start = page.text.indexOf('\n');
+        const end = page.text.indexOf('\n', start + 1) + 1;
+
+        expect(createTextAnchor(page, { start, end })!.quote).toBe(lines[1]);
+    });
+});
+
+describe('resolveTextAnchor', () => {
+    it('uses the stored offsets while the text is unchanged', () => {
+        const page = makePage(lines);
+        const range = rangeOf(page, 'the contract was void');
+
+        expect(resolveTextAnchor(createTextAnchor(page, range)!, page)).toEqual(range);
+    });
+
+    it('finds the quote again when the items before it shift', () => {
+        const anchor = createTextAnchor(makePage(lines), rangeOf(makePage(lines), 'the contract was void'))!;
+        const shifted = makePage(['Page 4', ...lines]);
+
+        expect(resolveTextAnchor(anchor, shifted)).toEqual(rangeOf(shifted, 'the contract was void'));
+    });
+
+    it('picks the occurrence whose surroundings match the stored context', () => {
+        const sentences = ['The court held that the contract was void.', 'The dissent held that it was valid.'];
+        const original = makePage(sentences);
+        const anchor = createTextAnchor(original, rangeOf(original, 'held that', original.text.indexOf('dissent')))!;
+
+        // Pushed down a line, so the stored offsets now land in the court's sentence instead
+        const edited = makePage(['Syllabus', ...sentences]);
+        expect(resolveTextAnchor(anchor, edited)).toEqual(rangeOf(edited, 'held that', edited.text.indexOf('dissent')));
+    });
+
+    it('returns null once the quote is gone from the page', () => {
+        const page = makePage(lines);
+        const anchor = createTextAnchor(page, rangeOf(page, 'the contract was void'))!;
+
+        expect(resolveTextAnchor(anchor, makePage(['The appeal was dismissed.']))).toBeNull();
+    });
+});
@@ -0,0 +1,105 @@
+// src/lib/textAnchor.ts
+import { TextAnchor, TextPosition } from '@/types/highlight';
+import { PageTextIndex } from '@/lib/textSearch';
+
+const CONTEXT_LENGTH = 32;
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+export const toCharIndex = (page: PageTextIndex, position: TextPosition) => {
+    const item = page.items[position.itemIndex];
+    if (!item || position.offset < 0 || position.offset > item.end - item.start) return null;
+    return item.start + position.offset;
+};
+
+// Ends are placed at the close of the preceding item so a range never starts or stops on a line break
+export const toTextPosition = (page: PageTextIndex, charIndex: number, isEnd = false): TextPosition | null => {
+    for (let i = 0; i < page.items.length; i++) {
+        const item = page.items[i];
+        const inside = isEnd
+            ? charIndex > item.start && charIndex <= item.end
+            : charIndex >= item.start && charIndex < item.end;
+        if (inside) return { itemIndex: i, offset: charIndex - item.start };
+    }
+    return null;
+};
+
+export const createTextAnchor = (page: PageTextIndex, range: TextRange): TextAnchor | null => {
+    // Selections often begin or end on the line break between items; step past it
+    let { start: startChar, end: endChar } = range;
+    while (startChar < endChar && !toTextPosition(page, startChar)) startChar++;
+    while (endChar > startChar && !toTextPosition(page, endChar, true)) endChar--;
+
+    const start = toTextPosition(page, startChar);
+    const end = toTextPosition(page, endChar, true);
+    if (!start || !end || endChar <= startChar) return null;
+
+    return {
+        pageNumber: page.pageNum,
+        start,
+        end,
+        quote: page.text.slice(startChar, endChar),
+        prefix: page.text.slice(Math.max(0, startChar - CONTEXT_LENGTH), startChar),
+        suffix: page.text.slice(endChar, endChar + CONTEXT_LENGTH),
+    };
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+    let length = 0;
+    while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+    return length;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) length++;
+    return length;
+};
+
+// Tries the stored item offsets first, then falls back to the occurrence of the quote whose
+// surrounding text best matches the stored prefix and suffix
+export const resolveTextAnchor = (anchor: TextAnchor, page: PageTextIndex): TextRange | null => {
+    if (!anchor.quote) return null;
+
+    const start = toCharIndex(page, anchor.start);
+    const end = toCharIndex(page, anchor.end);
+    if (start !== null && end !== null && page.text.slice(start, end) === anchor.quote) {
+        return { start, end };
+    }
+
+    let best: TextRange | null = null;
+    let bestScore = -1;
+    let bestDistance = Infinity;
+
+    for (let index = page.text.indexOf(anchor.quote); index !== -1; index = page.text.indexOf(anchor.quote, index + 1)) {
+        const matchEnd = index + anchor.quote.length;
+        const score =
+            commonSuffixLength(page.text.slice(Math.max(0, index - anchor.prefix.length), index), anchor.prefix) +
+            commonPrefixLength(page.text.slice(matchEnd, matchEnd + anchor.suffix.length), anchor.suffix);
+        const distance = start === null ? 0 : Math.abs(index - start);
+
+        if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+            best = { start: index, end: matchEnd };
+            bestScore = score;
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[\w\u00C0-\u024F'’-]/.test(char);
+
+// Moves a range edge outward to the nearest word boundary so dragged edges never split a word
+export const snapToWordBoundary = (page: PageTextIndex, charIndex: number, edge: 'start' | 'end') => {
+    let index = Math.max(0, Math.min(page.text.length, charIndex));
+    if (edge === 'start') {
+        while (index > 0 && isWordChar(page.text[index - 1]) && isWordChar(page.text[index])) index--;
+    } else {
+        while (index < page.text.length && isWordChar(page.text[index - 1]) && isWordChar(page.text[index])) index++;
+    }
+    return index;
+};
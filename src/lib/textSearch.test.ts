@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { PDFPageViewport, TextContent } from 'pdfjs-dist/build/pdf';
+import { buildPageIndex, getRangeRects, MAX_HITS, PageTextIndex, searchPages, SearchOptions } from '@/lib/textSearch';
+
+const PAGE_WIDTH = 600;
+const PAGE_HEIGHT = 800;
+
+// PDF space has y pointing up; the viewport flips it so y grows down the page
+const viewport = {
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    convertToViewportPoint: (x: number, y: number) => [x, PAGE_HEIGHT - y],
+} as unknown as PDFPageViewport;
+
+// One text item per line, 5 points per character and 20 points between lines
+const makePage = (pageNum: number, lines: string[]): PageTextIndex => buildPageIndex(pageNum, {
+    items: lines.map((str, i) => ({
+        str,
+        dir: 'ltr',
+        transform: [10, 0, 0, 10, 50, 700 - i * 20],
+        width: str.length * 5,
+        height: 10,
+        fontName: 'f1',
+        hasEOL: true,
+    })),
+    styles: {},
+} as unknown as TextContent, viewport);
+
+const PLAIN: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+const pages = [
+    makePage(1, ['The Court held that the contract', 'was void. The courts below disagreed.']),
+    makePage(2, ['Decided in 1998, affirmed in 2001.']),
+];
+
+const texts = (query: string, options: Partial<SearchOptions> = {}) =>
+    searchPages(pages, query, { ...PLAIN, ...options }).map(hit => `${hit.pageNum}:${hit.text}`);
+
+describe('searchPages', () => {
+    it('ignores case unless asked not to', () => {
+        expect(texts('court')).toEqual(['1:Court', '1:court']);
+        expect(texts('court', { caseSensitive: true })).toEqual(['1:court']);
+    });
+
+    it('matches whole words only when asked', () => {
+        expect(texts('court', { wholeWord: true })).toEqual(['1:Court']);
+    });
+
+    it('treats the query literally outside regex mode', () => {
+        expect(texts('void.')).toEqual(['1:void.']);
+        expect(texts('\\d{4}')).toEqual([]);
+    });
+
+    it('runs regular expressions in regex mode', () => {
+        expect(texts('\\d{4}', { regex: true })).toEqual(['2:1998', '2:2001']);
+        expect(texts('19|20', { regex: true, wholeWord: true })).toEqual([]);
+    });
+
+    it('throws a SyntaxError for an invalid pattern', () => {
+        expect(() => searchPages(pages, '(unclosed', { ...PLAIN, regex: true })).toThrow(SyntaxError);
+    });
+
+    it('skips empty matches instead of looping on them', () => {
+        expect(searchPages(pages, 'x*', { ...PLAIN, regex: true })).toEqual([]);
+    });
+
+    it('finds a phrase across the line break that joins two items', () => {
+        const [hit] = searchPages(pages, 'the contract was void', PLAIN);
+
+        expect(hit.text).toBe('the contract\nwas void');
+        expect(hit.before).toBe('The Court held that ');
+        // One rectangle on each line the match covers
+        const rects = getRangeRects(pages[0], hit.start, hit.end);
+        expect(rects).toHaveLength(2);
+        expect(rects[0].y1).toBeLessThan(rects[1].y1);
+    });
+
+    it(`stops after ${MAX_HITS} hits`, () => {
+        const crowded = makePage(1, [Array(MAX_HITS + 100).fill('a').join(' ')]);
+        expect(searchPages([crowded, ...pages], 'a', PLAIN)).toHaveLength(MAX_HITS);
+    });
+});
+
+describe('getRangeRects', () => {
+    it('spreads an item evenly over its characters', () => {
+        const page = makePage(1, ['abcdefghij']);
+        const [rect] = getRangeRects(page, 2, 5);
+
+        expect(rect.x1).toBeCloseTo((50 + 2 * 5) / PAGE_WIDTH);
+        expect(rect.x2).toBeCloseTo((50 + 5 * 5) / PAGE_WIDTH);
+        expect(rect.y1).toBeCloseTo((PAGE_HEIGHT - 710) / PAGE_HEIGHT);
+        expect(rect.height).toBeCloseTo(10 / PAGE_HEIGHT);
+    });
+});
@@ -0,0 +1,152 @@
+// src/lib/textSearch.ts
+import type { PDFPageViewport, TextContent } from 'pdfjs-dist/build/pdf';
+import type { HighlightRect } from '@/types/highlight';
+
+export interface IndexedTextItem {
+    start: number;
+    end: number;
+    // Normalized box of the item on the page, in viewport orientation
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PageTextIndex {
+    pageNum: number;
+    text: string;
+    items: IndexedTextItem[];
+}
+
+export interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean;
+}
+
+export interface SearchHit {
+    pageNum: number;
+    start: number;
+    end: number;
+    text: string;
+    before: string;
+    after: string;
+}
+
+const CONTEXT_LENGTH = 40;
+export const MAX_HITS = 5000;
+
+export const buildPageIndex = (
+    pageNum: number,
+    textContent: TextContent,
+    viewport: PDFPageViewport
+): PageTextIndex => {
+    let text = '';
+    const items: IndexedTextItem[] = [];
+
+    textContent.items.forEach(item => {
+        if (typeof item.str !== 'string') return;
+
+        const [, , c, d, e, f] = item.transform;
+        const height = item.height || Math.hypot(c, d);
+        const [ax, ay] = viewport.convertToViewportPoint(e, f);
+        const [bx, by] = viewport.convertToViewportPoint(e + item.width, f + height);
+
+        items.push({
+            start: text.length,
+            end: text.length + item.str.length,
+            x: Math.min(ax, bx) / viewport.width,
+            y: Math.min(ay, by) / viewport.height,
+            width: Math.abs(bx - ax) / viewport.width,
+            height: Math.abs(by - ay) / viewport.height,
+        });
+
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+    });
+
+    return { pageNum, text, items };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws a SyntaxError for invalid patterns in regex mode. Outside regex mode a space in the query
+// matches any run of whitespace, so a phrase is still found where a line break joins two items
+export const createSearchPattern = (query: string, options: SearchOptions) => {
+    let source = options.regex ? query : escapeRegExp(query).replace(/\s+/g, '\\s+');
+    if (options.wholeWord) source = `\\b(?:${source})\\b`;
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+};
+
+export const searchPages = (
+    pages: PageTextIndex[],
+    query: string,
+    options: SearchOptions
+): SearchHit[] => {
+    if (!query) return [];
+
+    const pattern = createSearchPattern(query, options);
+    const hits: SearchHit[] = [];
+
+    for (const page of pages) {
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(page.text)) !== null) {
+            if (match[0].length === 0) {
+                pattern.lastIndex++;
+                continue;
+            }
+
+            const start = match.index;
+            const end = start + match[0].length;
+            hits.push({
+                pageNum: page.pageNum,
+                start,
+                end,
+                text: match[0],
+                before: page.text.slice(Math.max(0, start - CONTEXT_LENGTH), start).replace(/\s+/g, ' '),
+                after: page.text.slice(end, end + CONTEXT_LENGTH).replace(/\s+/g, ' '),
+            });
+
+            if (hits.length >= MAX_HITS) return hits;
+        }
+    }
+
+    return hits;
+};
+
+// Glyph positions are approximated by spreading each item's width evenly over its characters
+export const getRangeRects = (page: PageTextIndex, start: number, end: number): HighlightRect[] =>
+    page.items
+        .filter(item => item.end > start && item.start < end && item.end > item.start)
+        .map(item => {
+            const length = item.end - item.start;
+            const from = Math.max(start, item.start) - item.start;
+            const to = Math.min(end, item.end) - item.start;
+
+            const x1 = item.x + item.width * (from / length);
+            const x2 = item.x + item.width * (to / length);
+            const y1 = item.y;
+            const y2 = item.y + item.height;
+
+            return { x1, y1, x2, y2, width: x2 - x1, height: y2 - y1 };
+        });
+
+// Reads the characters whose centers fall inside a rectangle, e.g. the text of an area highlight
+export const getTextInRect = (page: PageTextIndex, rect: HighlightRect) => {
+    const parts: string[] = [];
+    page.items.forEach(item => {
+        const length = item.end - item.start;
+        const centerY = item.y + item.height / 2;
+        if (length === 0 || centerY < rect.y1 || centerY > rect.y2) return;
+
+        let part = '';
+        for (let i = 0; i < length; i++) {
+            const centerX = item.x + item.width * ((i + 0.5) / length);
+            if (centerX >= rect.x1 && centerX <= rect.x2) part += page.text[item.start + i];
+        }
+        if (part.trim()) parts.push(part.trim());
+    });
+    return parts.join(' ').replace(/\s+/g, ' ');
+};
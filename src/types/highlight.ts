@@ -1,32 +1,90 @@
 // src/types/highlight.ts
 
+// Coordinates are fractions of the rendered page width and height, so they hold at any zoom
+export interface HighlightRect {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number;
+  height: number;
+}
+
+// A position in the page's text content: index into the text items and a character offset within it
+export interface TextPosition {
+  itemIndex: number;
+  offset: number;
+}
+
+// Locates the highlighted text independently of how the text layer happens to be laid out.
+// The quote and its surrounding context let the anchor be found again if item offsets shift.
+export interface TextAnchor {
+  pageNumber: number;
+  start: TextPosition;
+  end: TextPosition;
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface HighlightPosition {
+  boundingRect: HighlightRect & {
+    pageNumber: number;
+  };
+  rects: HighlightRect[];
+}
+
+// The part of a highlight that falls on one page
+export interface HighlightSegment {
+  position: HighlightPosition;
+  anchor?: TextAnchor;
+}
+
+// How the marked text is drawn; highlights saved before styles existed have none and are plain highlights
+export type MarkupStyle = "highlight" | "underline" | "strikeout" | "squiggly" | "box";
+
+export const MARKUP_STYLES: Array<{ value: MarkupStyle; name: string }> = [
+  { value: "highlight", name: "Highlight" },
+  { value: "underline", name: "Underline" },
+  { value: "strikeout", name: "Strikethrough" },
+  { value: "squiggly", name: "Squiggly" },
+  { value: "box", name: "Box" },
+];
+
 export interface Highlight {
   id: string;
-  position: {
-    boundingRect: {
-      x1: number;
-      y1: number;
-      x2: number;
-      y2: number;
-      width: number;
-      height: number;
-      pageNumber: number;
-    };
-    rects: Array<{
-      x1: number;
-      y1: number;
-      x2: number;
-      y2: number;
-      width: number;
-      height: number;
-    }>;
-  };
+  position: HighlightPosition;
+  anchor?: TextAnchor;
+  // Continuations on the following pages when a selection crosses a page break
+  segments?: HighlightSegment[];
   content: {
     text: string;
     image?: string;
   };
   comment?: string;
+  author?: string;
   color: string;
+  categoryId?: string;
+  style?: MarkupStyle;
+  // Sticky notes are pinned to a point instead of text: the position is the icon's box,
+  // the note lives in comment and content.text stays empty
+  sticky?: boolean;
+  created: Date;
+}
+
+export interface InkPoint {
+  x: number;
+  y: number;
+}
+
+// A freehand pen stroke. Points are fractions of the page like highlight rects; the width is in
+// PDF points at 100% zoom, so it scales with the page and maps directly onto the exported border width.
+export interface InkStroke {
+  id: string;
+  pageNumber: number;
+  points: InkPoint[];
+  color: string;
+  width: number;
   created: Date;
 }
 
@@ -37,10 +95,39 @@ export interface HighlightColor {
 }
 
 export const HIGHLIGHT_COLORS: HighlightColor[] = [
-  { name: "Yellow", value: "#fbbf24", background: "#fef3c7" },
-  { name: "Blue", value: "#3b82f6", background: "#dbeafe" },
-  { name: "Green", value: "#10b981", background: "#d1fae5" },
-  { name: "Pink", value: "#ec4899", background: "#fce7f3" },
-  { name: "Purple", value: "#8b5cf6", background: "#ede9fe" },
-  { name: "Orange", value: "#f97316", background: "#fed7aa" },
+  { name: "Yellow", value: "#fbbf24", background: "#fef08a" },
+  { name: "Blue", value: "#3b82f6", background: "#93c5fd" },
+  { name: "Green", value: "#10b981", background: "#6ee7b7" },
+  { name: "Pink", value: "#ec4899", background: "#f472b6" },
+  { name: "Purple", value: "#8b5cf6", background: "#a78bfa" },
+  { name: "Orange", value: "#f97316", background: "#fb923c" },
 ];
+
+export interface HighlightCategory extends HighlightColor {
+  id: string;
+  description: string;
+}
+
+export const DEFAULT_CATEGORIES: HighlightCategory[] = [
+  { ...HIGHLIGHT_COLORS[0], id: "facts", name: "Facts", description: "Who did what; the procedural and factual background" },
+  { ...HIGHLIGHT_COLORS[3], id: "issue", name: "Issue", description: "The legal question the court must answer" },
+  { ...HIGHLIGHT_COLORS[1], id: "rule", name: "Rule", description: "The rule of law the court applies" },
+  { ...HIGHLIGHT_COLORS[2], id: "holding", name: "Holding", description: "The court's answer to the issue" },
+  { ...HIGHLIGHT_COLORS[4], id: "reasoning", name: "Reasoning", description: "Why the court reached its holding" },
+  { ...HIGHLIGHT_COLORS[5], id: "dissent", name: "Dissent", description: "Concurring or dissenting views" },
+];
+
+export const HIGHLIGHT_SIDECAR_SCHEMA = "lawbandit-highlights";
+export const HIGHLIGHT_SIDECAR_VERSION = 2;
+
+export interface HighlightSidecar {
+  schema: typeof HIGHLIGHT_SIDECAR_SCHEMA;
+  version: number;
+  fingerprint: string;
+  fileName: string;
+  pageCount: number;
+  exportedAt: Date;
+  highlights: Highlight[];
+  categories: HighlightCategory[];
+  inkStrokes?: InkStroke[];
+}
@@ -2,21 +2,57 @@
 declare module 'pdfjs-dist/build/pdf' {
     export interface PDFDocumentProxy {
         numPages: number;
+        fingerprints: [string, string | null];
         getPage(pageNumber: number): Promise<PDFPageProxy>;
+        getOutline(): Promise<OutlineNode[] | null>;
+        getDestination(id: string): Promise<ExplicitDestination | null>;
+        getPageIndex(ref: RefProxy): Promise<number>;
+        destroy(): Promise<void>;
+    }
+
+    export interface RefProxy {
+        num: number;
+        gen: number;
+    }
+
+    // [page reference or index, { name: 'XYZ' | 'Fit' | ... }, ...view arguments]
+    export type ExplicitDestination = [RefProxy | number, { name: string }, ...Array<number | null>];
+
+    export interface OutlineNode {
+        title: string;
+        bold: boolean;
+        italic: boolean;
+        color: Uint8ClampedArray;
+        dest: string | ExplicitDestination | null;
+        url: string | null;
+        unsafeUrl?: string;
+        newWindow?: boolean;
+        count?: number;
+        items: OutlineNode[];
     }
 
     export interface PDFPageProxy {
-        getViewport(params: { scale: number }): PDFPageViewport;
+        rotate: number;
+        getViewport(params: { scale: number; rotation?: number }): PDFPageViewport;
         render(params: {
             canvasContext: CanvasRenderingContext2D;
             viewport: PDFPageViewport;
-        }): { promise: Promise<void> };
+            transform?: number[];
+        }): RenderTask;
         getTextContent(): Promise<TextContent>;
+        getAnnotations(params?: { intent?: string }): Promise<AnnotationData[]>;
+    }
+
+    export interface RenderTask {
+        promise: Promise<void>;
+        cancel(): void;
     }
 
     export interface PDFPageViewport {
         width: number;
         height: number;
+        convertToPdfPoint(x: number, y: number): number[];
+        convertToViewportPoint(x: number, y: number): number[];
     }
 
     export interface TextContent {
@@ -29,6 +65,31 @@ declare module 'pdfjs-dist/build/pdf' {
         width: number;
         height: number;
         fontName: string;
+        hasEOL?: boolean;
+    }
+
+    export interface AnnotationPoint {
+        x: number;
+        y: number;
+    }
+
+    export interface AnnotationData {
+        id: string;
+        subtype: string;
+        rect: number[];
+        color: Uint8ClampedArray | null;
+        contentsObj?: { str: string; dir: string };
+        titleObj?: { str: string; dir: string };
+        creationDate?: string | null;
+        modificationDate?: string | null;
+        quadPoints?: AnnotationPoint[][] | null;
+        inReplyTo?: string | null;
+        parentRect?: number[] | null;
+        // Link annotations: an external url or an internal destination
+        url?: string;
+        unsafeUrl?: string;
+        dest?: string | ExplicitDestination;
+        newWindow?: boolean;
     }
 
     export const GlobalWorkerOptions: {
@@ -38,4 +99,14 @@ declare module 'pdfjs-dist/build/pdf' {
     export function getDocument(params: { data: ArrayBuffer }): {
         promise: Promise<PDFDocumentProxy>;
     };
+
+    // `textContent` is deprecated since 3.x in favour of `textContentSource`, which also takes a stream
+    export function renderTextLayer(params: {
+        textContentSource: ReadableStream | TextContent;
+        container: HTMLElement;
+        viewport: PDFPageViewport;
+        textDivs?: HTMLElement[];
+    }): RenderTask;
+
+    export const version: string;
 }
\ No newline at end of file